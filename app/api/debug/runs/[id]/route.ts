@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadDebugRecord } from '../../../../../lib/python/debugRuns';
+
+// Outside development, retained runs are only served with DEBUG_ACCESS_TOKEN, passed
+// as an `x-debug-token` header or a `token` query parameter.
+function canViewDebugRuns(request: NextRequest): boolean {
+  if (process.env.NODE_ENV !== 'production') return true;
+  const token = process.env.DEBUG_ACCESS_TOKEN;
+  if (!token) return false;
+  return request.headers.get('x-debug-token') === token || request.nextUrl.searchParams.get('token') === token;
+}
+
+// Scripts, stdout, stderr and exit codes of every attempt behind a debug id.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  // Unauthorized requests get the same 404 as unknown ids
+  if (!canViewDebugRuns(request)) {
+    return NextResponse.json({ error: 'Debug run not found.' }, { status: 404 });
+  }
+  try {
+    const record = await loadDebugRecord(id);
+    if (!record) {
+      return NextResponse.json({ error: 'Debug run not found.' }, { status: 404 });
+    }
+    return NextResponse.json(record, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: any) {
+    console.error('Error in /api/debug/runs/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error.', details: error.message }, { status: 500 });
+  }
+}
@@ -1,65 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getOcrMaxFiles, recognizeDocuments } from '../../../lib/ocr/document';
+import { OCRChainError, OCRError } from '../../../lib/ocr/errors';
+import { AUTO_LANGUAGE, findLanguage, OCR_LANGUAGES } from '../../../lib/ocr/languages';
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
-    const file = formData.get('file') as File | null;
+    const files = formData.getAll('file').filter((entry): entry is File => typeof entry !== 'string');
     const language = formData.get('language') as string || 'eng'; // Default to English if not specified
+    const layout = formData.get('layout') === 'true'; // Word boxes for the overlay review
 
-    if (!file) {
+    if (language !== AUTO_LANGUAGE && !findLanguage(language)) {
+      const supported = [AUTO_LANGUAGE, ...OCR_LANGUAGES.map((option) => option.code)].join(', ');
+      return NextResponse.json({ error: `Unsupported language "${language}". Use one of: ${supported}.` }, { status: 400 });
+    }
+    if (files.length === 0) {
       return NextResponse.json({ error: 'No file provided.' }, { status: 400 });
     }
-
-    const ocrApiKey = process.env.OCR_SPACE_API_KEY;
-    if (!ocrApiKey) {
-      console.error('OCR_SPACE_API_KEY not set in environment variables');
-      return NextResponse.json({ error: 'OCR service configuration error.' }, { status: 500 });
+    const maxFiles = getOcrMaxFiles();
+    if (files.length > maxFiles) {
+      return NextResponse.json({ error: `Too many files. Upload at most ${maxFiles} at a time.` }, { status: 400 });
     }
 
-    const ocrFormData = new FormData();
-    ocrFormData.append('file', file);
-    ocrFormData.append('apikey', ocrApiKey);
-    ocrFormData.append('language', language); // Add language parameter
-    ocrFormData.append('isOverlayRequired', 'false'); // We only need the text
-    // ocrFormData.append('OCREngine', '2'); // You can experiment with OCR Engine 1 or 2
+    const inputs = await Promise.all(
+      files.map(async (file) => ({
+        data: Buffer.from(await file.arrayBuffer()),
+        fileName: file.name || 'upload.png',
+        mimeType: file.type || 'application/octet-stream',
+      }))
+    );
+
+    // Images are one page each, PDFs one per rendered page
+    const pages = await recognizeDocuments(inputs, { language, layout });
+    const text = pages.map((page) => page.text).filter((pageText) => pageText.trim()).join('\n\n');
 
-    const ocrResponse = await fetch('https://api.ocr.space/parse/image', {
-      method: 'POST',
-      body: ocrFormData,
-    });
+    return NextResponse.json({ extractedText: text || 'No text found in image.', pages });
 
-    if (!ocrResponse.ok) {
-      const errorData = await ocrResponse.json().catch(() => ({})); // Try to parse error, default to empty obj
-      console.error('OCR.space API Error:', errorData);
+  } catch (error: any) {
+    if (error instanceof OCRChainError) {
+      const lastError = error.errors[error.errors.length - 1];
       return NextResponse.json(
-        { 
-          error: `OCR API request failed with status ${ocrResponse.status}.`, 
-          details: errorData?.ErrorMessage || errorData?.ErrorDetails || 'Unknown OCR API error' 
+        {
+          error: lastError?.message ?? 'OCR service configuration error.',
+          details: error.errors.map((e) => ({ provider: e.provider, code: e.code, details: e.details })),
         },
-        { status: ocrResponse.status }
+        { status: lastError?.status ?? 500 }
       );
     }
-
-    const ocrData = await ocrResponse.json();
-
-    if (ocrData.IsErroredOnProcessing) {
-      console.error('OCR.space processing error:', ocrData.ErrorMessage);
+    if (error instanceof OCRError) {
       return NextResponse.json(
-        { error: 'OCR processing failed.', details: ocrData.ErrorMessage?.join(', ') || 'See OCR API logs for details.' }, 
-        { status: 500 }
+        { error: error.message, details: [{ provider: error.provider, code: error.code, details: error.details }] },
+        { status: error.status }
       );
     }
-
-    if (!ocrData.ParsedResults || ocrData.ParsedResults.length === 0) {
-      return NextResponse.json({ extractedText: 'No text found in image.', ocrData }, { status: 200 });
-    }
-
-    const extractedText = ocrData.ParsedResults[0].ParsedText;
-    
-    return NextResponse.json({ extractedText });
-
-  } catch (error: any) {
     console.error('Error in /api/ocr:', error);
     return NextResponse.json({ error: 'Internal server error.', details: error.message }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseRenderRequest, runRenderRequest } from '../../../lib/visualize/request';
+import { clientKey, createRateLimiter } from '../../../lib/rateLimit';
+
+function readIntEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Re-runs per client and minute; every one is a sandbox run of caller-supplied code
+const limiter = createRateLimiter(readIntEnv('RENDER_RATE_LIMIT', 10), 60_000);
+
+// The route runs arbitrary code, so it is for the team only: with RENDER_ACCESS_TOKEN set,
+// requests must pass it as an `x-render-token` header. Without it the route is off in
+// production and open only in development.
+function canRender(request: NextRequest): boolean {
+  const token = process.env.RENDER_ACCESS_TOKEN;
+  if (!token) return process.env.NODE_ENV !== 'production';
+  return request.headers.get('x-render-token') === token;
+}
+
+// Re-run edited visualization code in the sandbox, without calling the model.
+export async function POST(request: NextRequest) {
+  if (!canRender(request)) {
+    return NextResponse.json({ error: 'Re-running code requires a valid access token.' }, { status: 401 });
+  }
+  const { allowed, retryAfterSeconds } = limiter.check(clientKey(request.headers));
+  if (!allowed) {
+    return NextResponse.json(
+      { error: `Too many re-runs. Try again in ${retryAfterSeconds} seconds.` },
+      { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch (e: any) {
+    return NextResponse.json({ error: 'Invalid JSON in request body', details: e.message }, { status: 400 });
+  }
+
+  const parsed = parseRenderRequest(body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    console.log(`✏️ Rendering edited ${parsed.request.mode} code (${parsed.request.code.length} chars)`);
+    const { status, body: responseBody, headers } = await runRenderRequest(parsed.request);
+    return NextResponse.json(responseBody, { status, headers });
+  } catch (error: any) {
+    console.error('❌ Unexpected error in render route:', error);
+    return NextResponse.json({ error: 'Internal server error', details: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getVisualizationStore } from '../../../../../lib/storage/getStore';
+import { extensionForMimeType } from '../../../../../lib/storage/types';
+import { getVisualizationExpiry, loadVisualization } from '../../../../../lib/visualize/persist';
+
+// Serves stored images; neither backend exposes its files directly, so expiry is enforced here.
+// Caches may keep an image until its link expires, never longer.
+function cacheControl(expiry: Date | null): string {
+  if (!expiry) return 'public, max-age=31536000, immutable';
+  const maxAge = Math.max(0, Math.floor((expiry.getTime() - Date.now()) / 1000));
+  return `public, max-age=${maxAge}`;
+}
+
+// Figures are model-generated, and an SVG can carry links or scripts. Served at the app's
+// origin, they must never run: no sniffing, no scripts, and a sandboxed document.
+function safetyHeaders(mimeType: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+  };
+  if (mimeType === 'image/svg+xml' || mimeType === 'application/pdf') {
+    headers['Content-Disposition'] = `inline; filename="visualization.${extensionForMimeType(mimeType)}"`;
+  }
+  return headers;
+}
+
+// `?figure=2` selects the second figure of a visualization with several; the first is the default.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const store = await getVisualizationStore();
+    const record = await loadVisualization(id); // Respects expiry
+    const figure = Number(request.nextUrl.searchParams.get('figure') ?? '1');
+    const image = store && record && Number.isInteger(figure) && figure >= 1 ? await store.getImage(id, figure - 1) : null;
+    if (!record || !image) {
+      return NextResponse.json({ error: 'Visualization not found.' }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(image.data), {
+      status: 200,
+      headers: {
+        'Content-Type': image.mimeType,
+        'Cache-Control': cacheControl(getVisualizationExpiry(record)),
+        ...safetyHeaders(image.mimeType),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error in /api/visualizations/[id]/image:', error);
+    return NextResponse.json({ error: 'Internal server error.', details: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseBatchRequest, runVisualizeBatch } from '../../../../lib/visualize/batch';
+
+// Visualize several problems in one request. Answers 200 once every item has finished;
+// each result carries its own HTTP status and the body /api/visualize would return.
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (e: any) {
+    return NextResponse.json({ error: 'Invalid JSON in request body', details: e.message }, { status: 400 });
+  }
+
+  const parsed = parseBatchRequest(body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    console.log(`📦 Starting batch of ${parsed.entries.length} problems`);
+    const results = await runVisualizeBatch(parsed.entries);
+    const succeeded = results.filter((result) => result.status === 200).length;
+    console.log(`📦 Batch finished: ${succeeded}/${results.length} succeeded`);
+
+    return NextResponse.json({
+      results: results.map(({ index, status, body: itemBody }) => ({ index, status, ...itemBody })),
+      succeeded,
+      failed: results.length - succeeded,
+    });
+  } catch (error: any) {
+    console.error('❌ Unexpected error in batch route:', error);
+    return NextResponse.json({ error: 'Internal server error', details: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '../../../../../lib/jobs/getJobStore';
+
+// Current state of a visualization job. `result` / `error` carry the same body
+// the synchronous /api/visualize endpoint would have returned.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const store = await getJobStore();
+    const job = await store.get(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found.' }, { status: 404 });
+    }
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        status: job.status,
+        attempt: job.attempt,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+        finishedAt: job.finishedAt,
+        history: job.history,
+        result: job.result,
+        error: job.error,
+        httpStatus: job.httpStatus,
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error: any) {
+    console.error('Error in /api/visualize/jobs/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error.', details: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '../../../../lib/jobs/getJobStore';
+import { runJob } from '../../../../lib/jobs/runJob';
+import { parseVisualizeRequest } from '../../../../lib/visualize/request';
+
+// Submit a visualization as a background job. Poll GET /api/visualize/jobs/[id] for the result.
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (e: any) {
+    return NextResponse.json({ error: 'Invalid JSON in request body', details: e.message }, { status: 400 });
+  }
+
+  const parsed = parseVisualizeRequest(body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const store = await getJobStore();
+    const job = await store.create(parsed.request);
+    console.log(`🧾 Queued visualization job ${job.id} (${store.name} store)`);
+
+    // Runs after the response has been sent
+    after(() => runJob(store, job.id));
+
+    return NextResponse.json(
+      { jobId: job.id, status: job.status, createdAt: job.createdAt, statusUrl: `/api/visualize/jobs/${job.id}` },
+      { status: 202, headers: { Location: `/api/visualize/jobs/${job.id}` } }
+    );
+  } catch (error: any) {
+    console.error('❌ Failed to create visualization job:', error);
+    return NextResponse.json({ error: 'Internal server error', details: error.message }, { status: 500 });
+  }
+}
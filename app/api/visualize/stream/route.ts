@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatSSE } from '../../../../lib/sse';
+import { parseVisualizeRequest, runVisualizeRequest } from '../../../../lib/visualize/request';
+
+// Keeps proxies from closing the connection while the model or Python is busy
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+// Streaming variant of /api/visualize. Emits one SSE event per pipeline stage
+// (generating, code, generated, executing, repairing) and a final `result` event
+// with the same status and body the synchronous endpoint returns.
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (e: any) {
+    return NextResponse.json({ error: 'Invalid JSON in request body', details: e.message }, { status: 400 });
+  }
+
+  const parsed = parseVisualizeRequest(body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          closed = true; // Client went away; the pipeline still finishes and persists the result
+        }
+      };
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      console.log('📡 Streaming visualization for:', parsed.request.problemText);
+      try {
+        const { status, body: responseBody } = await runVisualizeRequest(parsed.request, {
+          onProgress: (event) => send(formatSSE(event.stage, event)),
+        });
+        send(formatSSE('result', { status, body: responseBody }));
+      } catch (error: any) {
+        console.error('❌ Unexpected Error in streaming route:', error);
+        send(formatSSE('result', { status: 500, body: { error: 'Internal server error', details: error.message } }));
+      } finally {
+        clearInterval(heartbeat);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx response buffering
+    },
+  });
+}
@@ -6,25 +6,125 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input"; // For file input
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"; // For error messages
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"; // Added Card components
-import {
-  Tooltip,
-  TooltipContent,
-  TooltipProvider,
-  TooltipTrigger,
-} from "@/components/ui/tooltip"; // For "Coming Soon" button
-import { Terminal, Expand, DownloadCloud, XCircle, Loader2 } from "lucide-react"; // Icon for Alert and new icons, Loader2 for button spinner
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"; // For output format options
+import { Carousel, CarouselApi, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel"; // For multi-part problems
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"; // Image and code views of the result
+import CodeEditor from "@/components/CodeEditor";
+import CameraCapture from "@/components/CameraCapture";
+import ImageEditor from "@/components/ImageEditor";
+import MathPreview, { containsMath } from "@/components/MathPreview";
+import OcrOverlayReview from "@/components/OcrOverlayReview";
+import ProblemList from "@/components/ProblemList";
+import BatchResults, { BatchItem } from "@/components/BatchResults";
+import VisualizationProgress, { INITIAL_PROGRESS, VisualizationProgressState } from "@/components/VisualizationProgress";
+import { readEventStream } from "@/lib/sse";
+import { AUTO_LANGUAGE, findLanguage, OCR_LANGUAGES, Script } from "@/lib/ocr/languages";
+import type { OCRLine } from "@/lib/ocr/types";
+import type { OCRPage } from "@/lib/ocr/document";
+import { prepareForOcr } from "@/lib/image/editImage";
+import type { VisualizeMode } from "@/lib/visualize/pipeline";
+import { JOB_TTL_MS } from "@/lib/jobs/types";
+import { Terminal, Expand, DownloadCloud, XCircle, Loader2, Link2, Check, Camera, Play, RotateCcw } from "lucide-react"; // Icon for Alert and new icons, Loader2 for button spinner
+
+// File extensions for the download button, keyed by the MIME type returned by the API
+const FILE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/svg+xml": "svg",
+  "application/pdf": "pdf",
+};
+
+// The OCR language choice is remembered in this browser
+const LANGUAGE_STORAGE_KEY = "ocrLanguage";
+const RENDER_TOKEN_STORAGE_KEY = "renderAccessToken";
+const JOB_POLL_INTERVAL_MS = 1500;
+
+// Run a visualization as a background job and poll it until it finishes, or until the server
+// would have dropped it. Used when the progress stream is cut before its result, e.g. by a
+// proxy that times out long responses.
+async function visualizeAsJob(
+  requestBody: Record<string, unknown>,
+  onStage: (stage: 'generating' | 'executing', attempt: number) => void
+): Promise<{ status: number; body: any }> {
+  const response = await fetch('/api/visualize/jobs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(requestBody),
+  });
+  const submitted = await response.json();
+  if (!response.ok) return { status: response.status, body: submitted };
+
+  const deadline = Date.now() + JOB_TTL_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    const poll = await fetch(submitted.statusUrl, { cache: 'no-store' });
+    const job = await poll.json();
+    if (!poll.ok) throw new Error(job.error || `Job status request failed with status ${poll.status}.`);
+    if (job.status === 'done' || job.status === 'failed') {
+      return { status: job.httpStatus ?? (job.status === 'done' ? 200 : 500), body: job.result ?? job.error ?? {} };
+    }
+    if (job.status === 'generating' || job.status === 'executing') onStage(job.status, job.attempt);
+  }
+  throw new Error(`The visualization did not finish within ${Math.round(JOB_TTL_MS / 60_000)} minutes. Please try again.`);
+}
+
+// One diagram returned by the API; multi-part problems return several
+interface Figure {
+  imageBase64: string;
+  mimeType: string;
+  caption: string | null;
+}
 
 export default function HomePage() {
   const [problemText, setProblemText] = useState<string>("");
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]); // Images or PDFs sent to OCR
   const [ocrText, setOcrText] = useState<string>(""); // To store text from OCR
   const [isOcrLoading, setIsOcrLoading] = useState<boolean>(false); // New state for OCR loading
+  const [ocrLanguage, setOcrLanguage] = useState<string>(AUTO_LANGUAGE); // OCR language code, or auto to detect the script
+  const [ocrPages, setOcrPages] = useState<OCRPage[]>([]); // One per image or PDF page, with the user's corrections
+  const [selectedPage, setSelectedPage] = useState<number>(0); // The page shown in the review textarea
+  const [selectedProblem, setSelectedProblem] = useState<number | null>(null); // Exercise of the page under review; null for the whole page
+  const [checkedProblems, setCheckedProblems] = useState<number[]>([]); // Exercises of the page picked for a batch run
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState<boolean>(false);
+  const [isOverlayOpen, setIsOverlayOpen] = useState<boolean>(false);
+  const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
+  const [pendingImage, setPendingImage] = useState<File | null>(null); // Picked or captured, waiting in the editor
   const [isVisualizing, setIsVisualizing] = useState<boolean>(false); // Renamed from isLoading for clarity
   const [error, setError] = useState<string | null>(null);
-  const [imageBase64, setImageBase64] = useState<string | null>(null); 
-  const imageRef = useRef<HTMLImageElement>(null); // Ref for the image element for fullscreen
+  const [figures, setFigures] = useState<Figure[]>([]); // Generated diagrams, in problem order
+  const [selectedFigure, setSelectedFigure] = useState<number>(0); // Carousel position
+  const [carouselApi, setCarouselApi] = useState<CarouselApi>();
+  const [outputFormat, setOutputFormat] = useState<string>("png"); // Requested format: png, svg or pdf
+  const [outputDpi, setOutputDpi] = useState<string>("100"); // Resolution for PNG output
+  const [shareUrl, setShareUrl] = useState<string | null>(null); // Public link to the saved visualization, if storage is enabled
+  const [isLinkCopied, setIsLinkCopied] = useState<boolean>(false);
+  const [debugId, setDebugId] = useState<string | null>(null); // Server-side record of the script runs, for bug reports
+  const [progress, setProgress] = useState<VisualizationProgressState>(INITIAL_PROGRESS); // Live pipeline stages from the stream
+  const [resultTab, setResultTab] = useState<string>("image"); // "image" or "code"
+  const [generatedCode, setGeneratedCode] = useState<string>(""); // Script behind the figures, as returned by the API
+  const [editedCode, setEditedCode] = useState<string>(""); // The user's edits, sent to /api/render on re-run
+  const [resultMode, setResultMode] = useState<VisualizeMode>("python"); // Whether the code is Python or scene JSON
+  const [isRerunning, setIsRerunning] = useState<boolean>(false);
+  const [rerunError, setRerunError] = useState<string | null>(null); // Kept in the code tab so the last figures stay visible
+  const [renderToken, setRenderToken] = useState<string>(""); // Team access token for /api/render
+  const imageRef = useRef<HTMLImageElement>(null); // Ref for the selected figure's image element, for fullscreen
   const [isInFullScreen, setIsInFullScreen] = useState<boolean>(false); // State for fullscreen status
 
+  // Restore the saved OCR language after hydration; the server render always starts with auto
+  useEffect(() => {
+    const saved = window.localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    if (saved && (saved === AUTO_LANGUAGE || findLanguage(saved))) {
+      setOcrLanguage(saved);
+    }
+    try {
+      setRenderToken(window.localStorage.getItem(RENDER_TOKEN_STORAGE_KEY) ?? "");
+    } catch {
+      // Storage can be unavailable (private mode); the token is then entered each visit
+    }
+  }, []);
+
   // Effect to listen to fullscreen changes
   useEffect(() => {
     const handleFullscreenChange = () => {
@@ -43,59 +143,212 @@ export default function HomePage() {
     };
   }, []);
 
+  const hasUpload = selectedFiles.length > 0;
+  // Production servers only run edited code for the team, see /api/render
+  const requiresRenderToken = process.env.NODE_ENV === "production";
+  const canRerun = !requiresRenderToken || renderToken.trim() !== "";
+  const currentPage = ocrPages[selectedPage] ?? null;
+  const detectedScript: Script | null = currentPage?.script ?? null; // What auto mode found on this page
+  const ocrLines: OCRLine[] | null = currentPage?.lines ?? null; // Word boxes for reviewing the text against the image
+  const pageProblems = currentPage?.problems ?? [];
+  // Boxes are in the pixels of the uploaded image; PDF pages are rendered on the server, so they have no overlay
+  const pageSourceFile = currentPage ? selectedFiles[currentPage.fileIndex] : undefined;
+  const overlayImage = pageSourceFile && pageSourceFile.type.startsWith('image/') ? pageSourceFile : null;
+
+  // The figure the footer buttons act on
+  const currentFigure = figures[selectedFigure] ?? null;
+  const imageBase64 = currentFigure?.imageBase64 ?? null;
+  const imageMimeType = currentFigure?.mimeType ?? "image/png";
+
+  // Follow the carousel so download and full screen apply to the visible figure
+  useEffect(() => {
+    if (!carouselApi) return;
+    const handleSelect = () => setSelectedFigure(carouselApi.selectedScrollSnap());
+    carouselApi.on("select", handleSelect);
+    return () => {
+      carouselApi.off("select", handleSelect);
+    };
+  }, [carouselApi]);
+
+  // Browsers do not reliably render data: URLs for PDFs, so preview through blob URLs
+  const [pdfPreviewUrls, setPdfPreviewUrls] = useState<(string | null)[]>([]);
+  useEffect(() => {
+    const urls = figures.map((figure) => {
+      if (figure.mimeType !== "application/pdf") return null;
+      const bytes = Uint8Array.from(atob(figure.imageBase64), (c) => c.charCodeAt(0));
+      return URL.createObjectURL(new Blob([bytes], { type: "application/pdf" }));
+    });
+    setPdfPreviewUrls(urls);
+    return () => urls.forEach((url) => url && URL.revokeObjectURL(url));
+  }, [figures]);
+
   const clearVisualizationState = () => {
-    setImageBase64(null);
+    setFigures([]);
+    setSelectedFigure(0);
+    setShareUrl(null);
+    setIsLinkCopied(false);
+    setDebugId(null);
+    setBatchItems([]);
+    setResultTab("image");
+    setGeneratedCode("");
+    setEditedCode("");
+    setRerunError(null);
     setError(null); // Also clear errors when input changes significantly
   };
 
+  // Review a page starting from its first exercise when it was split into several
+  const showPage = (pages: OCRPage[], index: number) => {
+    const page = pages[index];
+    const problems = page?.problems ?? [];
+    setSelectedPage(index);
+    setSelectedProblem(problems.length > 0 ? 0 : null);
+    setCheckedProblems(problems.map((_, problemIndex) => problemIndex));
+    setOcrText(problems[0]?.text ?? page?.text ?? "");
+  };
+
   const handleTextChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
     setProblemText(event.target.value);
-    if (selectedImage) setSelectedImage(null);
+    if (hasUpload) setSelectedFiles([]);
     if (ocrText) setOcrText(""); 
+    setOcrPages([]);
     clearVisualizationState();
   };
 
-  const handleImageChange = async (event: ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files[0]) {
-      const file = event.target.files[0];
-      setSelectedImage(file);
-      setProblemText(""); 
-      setOcrText(""); 
-      clearVisualizationState();
-      // Clear other states
-
-      setIsOcrLoading(true);
-      try {
-        const formData = new FormData();
-        formData.append('file', file);
-        // formData.append('language', 'por'); // Example: if you want to specify a language
-
-        const response = await fetch('/api/ocr', {
-          method: 'POST',
-          body: formData,
-        });
-
-        const result = await response.json();
-
-        if (!response.ok) {
-          throw new Error(result.error || `OCR request failed with status ${response.status}. Details: ${result.details}`);
-        }
+  // Run OCR on the uploaded files (the edited image, several images or PDFs) and show the first page with text
+  const processFiles = async (files: File[], language: string = ocrLanguage) => {
+    setSelectedFiles(files);
+    setProblemText(""); 
+    setOcrText(""); 
+    setOcrPages([]);
+    setSelectedPage(0);
+    setSelectedProblem(null);
+    setCheckedProblems([]);
+    clearVisualizationState();
+    // Clear other states
 
-        setOcrText(result.extractedText || "No text found in image. Please review or try a different image.");
+    setIsOcrLoading(true);
+    try {
+      const formData = new FormData();
+      files.forEach((file) => formData.append('file', file));
+      formData.append('language', language);
+      formData.append('layout', 'true');
 
-      } catch (ocrError: any) {
-        console.error("OCR Error:", ocrError);
-        setError(`OCR failed: ${ocrError.message || 'Unknown error'}`);
-        setOcrText("OCR processing failed. You can try typing the problem manually."); // Provide feedback in OCR box
-      } finally {
-        setIsOcrLoading(false);
+      const response = await fetch('/api/ocr', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || `OCR request failed with status ${response.status}. Details: ${result.details}`);
       }
+
+      const pages: OCRPage[] = result.pages ?? [];
+      const firstWithText = Math.max(0, pages.findIndex((page) => page.text.trim()));
+      setOcrPages(pages);
+      showPage(pages, firstWithText);
+      if (!pages[firstWithText]?.text) {
+        setOcrText("No text found in image. Please review or try a different image.");
+      }
+
+    } catch (ocrError: any) {
+      console.error("OCR Error:", ocrError);
+      setError(`OCR failed: ${ocrError.message || 'Unknown error'}`);
+      setOcrText("OCR processing failed. You can try typing the problem manually."); // Provide feedback in OCR box
+    } finally {
+      setIsOcrLoading(false);
     }
   };
+
+  // Switch the review textarea to another page; corrections are kept on each page
+  const handleSelectPage = (index: number) => {
+    showPage(ocrPages, index);
+    setIsOverlayOpen(false);
+    clearVisualizationState();
+  };
+
+  // Review one exercise of the page, or the whole page text with null
+  const handleSelectProblem = (index: number | null) => {
+    setSelectedProblem(index);
+    setOcrText(index === null ? currentPage?.text ?? "" : pageProblems[index]?.text ?? "");
+    clearVisualizationState();
+  };
+
+  // Select a line from the image overlay in the review text. The boxes belong to the raw OCR
+  // text; when the math pass rewrote the page, the line is looked up there and the same line of
+  // the rewritten page is selected instead, since the pass keeps line breaks.
+  const handleSelectOcrLine = (line: OCRLine) => {
+    const textarea = document.getElementById('ocrTextReview') as HTMLTextAreaElement | null;
+    if (!textarea) return;
+    const longestWord = line.words.reduce((longest, word) => (word.text.length > longest.length ? word.text : longest), "");
+    let needle = ocrText.includes(line.text) ? line.text : longestWord;
+
+    const rawText = currentPage?.rawText;
+    if (rawText && !ocrText.includes(needle)) {
+      const rawNeedle = rawText.includes(line.text) ? line.text : longestWord;
+      const rawStart = rawNeedle ? rawText.indexOf(rawNeedle) : -1;
+      const lineNumber = rawText.slice(0, Math.max(rawStart, 0)).split('\n').length - 1;
+      needle = rawStart < 0 ? "" : (currentPage.text.split('\n')[lineNumber] ?? "").trim();
+    }
+
+    const start = needle ? ocrText.indexOf(needle) : -1;
+    if (start < 0) return;
+    textarea.focus();
+    textarea.setSelectionRange(start, start + needle.length);
+  };
+
+  // Read the current image again in the new language, since that is usually why it changed
+  const handleLanguageChange = (language: string) => {
+    setOcrLanguage(language);
+    try {
+      window.localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+    } catch {
+      // Storage can be unavailable (private mode); the choice then lasts for this visit only
+    }
+    if (hasUpload && !isOcrLoading) {
+      processFiles(selectedFiles, language);
+    }
+  };
+
+  // A single photo goes through the editor; several files or a PDF go straight to OCR,
+  // with images only resized to fit the OCR upload limit
+  const handleImageChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = ""; // Let the same file be picked again after cancelling the editor
+    if (files.length === 0) return;
+
+    if (files.length === 1 && files[0].type.startsWith('image/')) {
+      setPendingImage(files[0]);
+      return;
+    }
+
+    setIsOcrLoading(true);
+    const prepared = await Promise.all(
+      files.map((file) =>
+        file.type.startsWith('image/')
+          ? prepareForOcr(file).catch((prepareError) => {
+              console.warn("Image preparation failed, uploading the original:", prepareError);
+              return file;
+            })
+          : Promise.resolve(file)
+      )
+    );
+    await processFiles(prepared);
+  };
   
   // This will be the text box for users to edit OCR results
+  // Corrections go to the exercise under review, or to the page text when none is selected
   const handleOcrTextChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
-    setOcrText(event.target.value);
+    const text = event.target.value;
+    setOcrText(text);
+    setOcrPages((pages) =>
+      pages.map((page, index) => {
+        if (index !== selectedPage) return page;
+        if (selectedProblem === null) return { ...page, text };
+        return { ...page, problems: page.problems.map((problem, problemIndex) => (problemIndex === selectedProblem ? { ...problem, text } : problem)) };
+      })
+    );
     clearVisualizationState(); 
   };
 
@@ -104,46 +357,105 @@ export default function HomePage() {
     setIsVisualizing(true);
     clearVisualizationState();
 
-    const textToProcess = selectedImage ? ocrText : problemText;
+    const textToProcess = hasUpload ? ocrText : problemText;
 
-    if (!textToProcess.trim() && !selectedImage) {
+    if (!textToProcess.trim() && !hasUpload) {
       setError("Please enter a math problem or upload an image.");
       setIsVisualizing(false);
       return;
     }
     
-    if (selectedImage && !ocrText.trim()) {
+    if (hasUpload && !ocrText.trim()) {
         setError("Please wait for OCR to complete, or if it failed, ensure the image has text or type manually.");
         setIsVisualizing(false);
         return;
     }
-    if (selectedImage && ocrText === "OCR processing failed. You can try typing the problem manually."){
+    if (hasUpload && ocrText === "OCR processing failed. You can try typing the problem manually."){
         setError("OCR processing failed. Please review the image or type the problem manually.");
         setIsVisualizing(false);
         return;
     }
 
-    console.log("Submitting to /api/visualize:", textToProcess);
+    console.log("Submitting to /api/visualize/stream:", textToProcess);
+
+    const requestBody = {
+      problemText: textToProcess,
+      language: ocrLanguage, // Auto is resolved on the server from the script of the text
+      format: outputFormat,
+      ...(outputFormat === "png" ? { dpi: Number(outputDpi) } : {}),
+    };
 
     try {
-      const response = await fetch('/api/visualize', {
+      setProgress(INITIAL_PROGRESS);
+      const response = await fetch('/api/visualize/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ problemText: textToProcess }),
+        body: JSON.stringify(requestBody),
       });
 
-      const result = await response.json();
+      if (!response.ok || !response.body) {
+        const requestError = await response.json().catch(() => ({}));
+        throw new Error(requestError.error || "Failed to start visualization.");
+      }
 
-      if (!response.ok) {
+      // Follow the pipeline stages until the final result event
+      let final: { status: number; body: any } | null = null;
+      await readEventStream(response.body, ({ event, data }) => {
+        switch (event) {
+          case 'generating':
+            setProgress((prev) => ({ ...prev, stage: 'generating', attempt: data.attempt, code: "" }));
+            break;
+          case 'code':
+            setProgress((prev) => ({ ...prev, code: prev.code + data.chunk }));
+            break;
+          case 'generated':
+            setProgress((prev) => ({ ...prev, code: data.code }));
+            break;
+          case 'executing':
+            setProgress((prev) => ({ ...prev, stage: 'executing' }));
+            break;
+          case 'repairing':
+            setProgress((prev) => ({ ...prev, stage: 'repairing', repairReason: data.reason }));
+            break;
+          case 'result':
+            final = data;
+            break;
+        }
+      }).catch((streamError) => console.warn("Progress stream failed:", streamError));
+
+      if (!final) {
+        console.log("No result from the progress stream; polling a background job instead");
+        final = await visualizeAsJob(requestBody, (stage, attempt) =>
+          setProgress((prev) => ({ ...prev, stage, attempt }))
+        );
+      }
+      const { status, body: result } = final as { status: number; body: any };
+      setDebugId(result.debugId ?? null);
+
+      if (status !== 200) {
+        if (result.code === 'PYTHON_TIMEOUT' || result.code === 'PYTHON_CPU_LIMIT') {
+          throw new Error("The visualization took too long to render. Try simplifying the problem or splitting it into parts.");
+        }
+        if (status === 429) {
+          throw new Error(`The server is busy right now. Please try again in ${result.retryAfter ?? 'a few'} seconds.`);
+        }
         // Try to parse details if they exist, otherwise use a generic message
         const errorDetails = result.details ? (typeof result.details === 'string' ? result.details : JSON.stringify(result.details)) : 'Unknown error from API';
         throw new Error(result.error || `Visualization API request failed. Details: ${errorDetails}`);
       }
       
       if (result.imageBase64) {
-        setImageBase64(result.imageBase64);
+        // Older responses only carry the first figure
+        setFigures(result.figures?.length ? result.figures : [{ imageBase64: result.imageBase64, mimeType: result.mimeType || "image/png", caption: null }]);
+        setSelectedFigure(0);
+        setGeneratedCode(result.source ?? "");
+        setEditedCode(result.source ?? "");
+        setResultMode(result.mode === "scene" ? "scene" : "python");
+        if (result.shareUrl) {
+          setShareUrl(new URL(result.shareUrl, window.location.origin).toString());
+        }
       } else {
         // This handles cases where the API might not return an imageBase64 string as expected,
         setError(result.error || result.warning || "No image data returned by the visualizer.");
@@ -153,22 +465,139 @@ export default function HomePage() {
     } catch (submissionError: any) {
       console.error("Visualization Submission Error:", submissionError);
       setError(`Visualization failed: ${submissionError.message}`);
-      setImageBase64(null); 
+      setFigures([]);
     } finally {
       setIsVisualizing(false);
     }
   };
 
+  // Visualize the checked exercises in one batch request; the server runs a few at a time
+  const handleBatchVisualize = async () => {
+    const problems = checkedProblems.map((index) => pageProblems[index]).filter(Boolean);
+    if (problems.length === 0) return;
+
+    clearVisualizationState();
+    setIsBatchRunning(true);
+    setBatchItems(problems.map((problem) => ({
+      label: problem.label,
+      problemText: problem.text,
+      status: 'running',
+      figures: [],
+      error: null,
+    })));
+
+    try {
+      const response = await fetch('/api/visualize/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          problems: problems.map((problem) => problem.text),
+          language: ocrLanguage,
+          format: outputFormat,
+          ...(outputFormat === "png" ? { dpi: Number(outputDpi) } : {}),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Batch request failed with status ${response.status}.`);
+      }
+
+      setBatchItems((current) =>
+        current.map((item, index) => {
+          const itemResult = result.results?.[index];
+          if (!itemResult || itemResult.status !== 200 || !itemResult.imageBase64) {
+            return { ...item, status: 'failed', error: itemResult?.error || itemResult?.warning || "No image data returned by the visualizer." };
+          }
+          return {
+            ...item,
+            status: 'done',
+            figures: itemResult.figures?.length ? itemResult.figures : [{ imageBase64: itemResult.imageBase64, mimeType: itemResult.mimeType || "image/png", caption: null }],
+          };
+        })
+      );
+    } catch (batchError: any) {
+      console.error("Batch Visualization Error:", batchError);
+      setError(`Batch visualization failed: ${batchError.message}`);
+      setBatchItems((current) => current.map((item) => ({ ...item, status: 'failed', error: batchError.message })));
+    } finally {
+      setIsBatchRunning(false);
+    }
+  };
+
+  const handleRenderTokenChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setRenderToken(event.target.value);
+    try {
+      window.localStorage.setItem(RENDER_TOKEN_STORAGE_KEY, event.target.value);
+    } catch {
+      // Storage can be unavailable (private mode); the token then lasts for this visit only
+    }
+  };
+
+  // Run the edited code again through the sandbox, without asking the model for new code
+  const handleRerunCode = async () => {
+    if (!editedCode.trim() || !canRerun) return;
+    setIsRerunning(true);
+    setRerunError(null);
+
+    try {
+      const response = await fetch('/api/render', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(renderToken ? { 'x-render-token': renderToken } : {}),
+        },
+        body: JSON.stringify({
+          code: editedCode,
+          mode: resultMode,
+          format: outputFormat,
+          ...(outputFormat === "png" ? { dpi: Number(outputDpi) } : {}),
+        }),
+      });
+      const result = await response.json();
+      setDebugId(result.debugId ?? null);
+
+      if (!response.ok || !result.imageBase64) {
+        const details = result.stderr || (typeof result.details === 'string' ? result.details : result.details ? JSON.stringify(result.details) : "");
+        throw new Error([result.error || `Render request failed with status ${response.status}.`, details].filter(Boolean).join("\n"));
+      }
+
+      setFigures(result.figures?.length ? result.figures : [{ imageBase64: result.imageBase64, mimeType: result.mimeType || "image/png", caption: null }]);
+      setSelectedFigure(0);
+      setShareUrl(null); // The saved visualization still shows the generated code's figures
+      setResultTab("image");
+    } catch (rerunFailure: any) {
+      console.error("Re-run Error:", rerunFailure);
+      setRerunError(rerunFailure.message || "Unknown error");
+    } finally {
+      setIsRerunning(false);
+    }
+  };
+
   const handleDownloadImage = () => {
     if (!imageBase64) return;
     const link = document.createElement('a');
-    link.href = `data:image/png;base64,${imageBase64}`;
-    link.download = 'visualization.png';
+    link.href = `data:${imageMimeType};base64,${imageBase64}`;
+    const suffix = figures.length > 1 ? `-${selectedFigure + 1}` : '';
+    link.download = `visualization${suffix}.${FILE_EXTENSIONS[imageMimeType] ?? 'png'}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  const handleCopyShareLink = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (copyError) {
+      console.error("Failed to copy link:", copyError);
+      setError("Could not copy the link. You can copy it manually: " + shareUrl);
+    }
+  };
+
   const handleToggleFullScreen = () => {
     if (!imageRef.current) return;
     if (!document.fullscreenElement) { // If not in fullscreen, request it
@@ -194,7 +623,43 @@ export default function HomePage() {
     }
   };
 
-  const isLoading = isOcrLoading || isVisualizing;
+  const isLoading = isOcrLoading || isVisualizing || isBatchRunning;
+
+  // A figure with its caption; only the selected one is bound to imageRef for full screen
+  const renderFigure = (figure: Figure, index: number) => (
+    <figure>
+      <div className="relative group aspect-video bg-slate-700/50 rounded-lg flex items-center justify-center border border-slate-600 overflow-hidden">
+        {figure.mimeType === "application/pdf" ? (
+          pdfPreviewUrls[index] && (
+            <object data={pdfPreviewUrls[index]!} type="application/pdf" className="w-full h-full" aria-label="Generated Math Visualization (PDF)">
+              <p className="text-slate-300 text-sm">PDF preview is not supported in this browser. Use the download button below.</p>
+            </object>
+          )
+        ) : (
+          <img 
+            ref={index === selectedFigure ? imageRef : undefined}
+            src={`data:${figure.mimeType};base64,${figure.imageBase64}`} 
+            alt={figure.caption ?? "Generated Math Visualization"} 
+            className="max-w-full max-h-full object-contain cursor-pointer transition-transform duration-150 ease-in-out group-hover:scale-105"
+            onClick={handleToggleFullScreen} 
+          />
+        )}
+        {/* Overlay Exit Fullscreen button - only visible when this image is fullscreen via JS check */} 
+        {index === selectedFigure && isInFullScreen && document.fullscreenElement === imageRef.current && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute top-2 right-2 z-50 bg-black/50 hover:bg-black/75 text-white hover:text-white"
+            onClick={handleToggleFullScreen} // Same toggle function works for exit
+            title="Exit Full Screen"
+          >
+            <XCircle size={24} />
+          </Button>
+        )}
+      </div>
+      {figure.caption && <figcaption className="mt-2 text-sm text-slate-300 text-center">{figure.caption}</figcaption>}
+    </figure>
+  );
 
   return (
     <main className="flex min-h-screen flex-col items-center justify-center p-4 sm:p-8 bg-gradient-to-br from-slate-900 to-slate-800 text-white">
@@ -225,7 +690,7 @@ export default function HomePage() {
                 rows={4}
                 value={problemText}
                 onChange={handleTextChange}
-                disabled={isLoading || !!selectedImage}
+                disabled={isLoading || hasUpload}
               />
             </div>
 
@@ -236,7 +701,7 @@ export default function HomePage() {
 
             <div>
               <label htmlFor="imageUpload" className="block text-sm font-medium text-slate-300 mb-1.5">
-                Upload an image:
+                Upload images or a PDF:
               </label>
               <div className="flex flex-col sm:flex-row gap-3">
                 <div className="flex-grow">
@@ -254,46 +719,123 @@ export default function HomePage() {
                     id="imageUpload"
                     type="file"
                     className="hidden"
-                    accept="image/png, image/jpeg, image/webp"
+                    accept="image/png, image/jpeg, image/webp, application/pdf"
+                    multiple
                     onChange={handleImageChange}
                     disabled={isLoading}
                   />
-                  {selectedImage && (
-                    <p className="text-xs text-slate-400 mt-1.5 truncate" title={selectedImage.name}>
-                      Selected: {selectedImage.name}
+                  {hasUpload && (
+                    <p className="text-xs text-slate-400 mt-1.5 truncate" title={selectedFiles.map((file) => file.name).join(", ")}>
+                      Selected: {selectedFiles.length === 1 ? selectedFiles[0].name : `${selectedFiles.length} files`}
                     </p>
                   )}
                 </div>
 
                 <div className="flex-grow">
-                  <TooltipProvider>
-                    <Tooltip delayDuration={300}>
-                      <TooltipTrigger asChild>
-                        <span tabIndex={0} className="inline-block w-full cursor-not-allowed">
-                          <Button
-                            variant="outline"
-                            className="w-full border-purple-500 text-purple-300"
-                            disabled
-                            style={{ pointerEvents: 'none' }}
-                            type="button"
-                          >
-                            Take Picture (Coming Soon)
-                          </Button>
-                        </span>
-                      </TooltipTrigger>
-                      <TooltipContent className="bg-slate-900 text-slate-200 border-slate-700">
-                        <p>This feature will be available in a future update!</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
+                  <Button
+                    variant="outline"
+                    className="w-full border-purple-500 text-purple-300 hover:bg-purple-500/20 hover:text-purple-200 hover:border-purple-400 flex items-center justify-center gap-2"
+                    onClick={() => setIsCameraOpen(true)}
+                    disabled={isLoading}
+                    type="button"
+                  >
+                    <Camera size={18} />
+                    Take Picture
+                  </Button>
+                  <CameraCapture open={isCameraOpen} onOpenChange={setIsCameraOpen} onCapture={setPendingImage} />
+                  <ImageEditor
+                    file={pendingImage}
+                    onCancel={() => setPendingImage(null)}
+                    onConfirm={(file) => {
+                      setPendingImage(null);
+                      processFiles([file]);
+                    }}
+                  />
                 </div>
               </div>
+              <div className="mt-3">
+                <label htmlFor="ocrLanguage" className="block text-sm font-medium text-slate-300 mb-1.5">
+                  Problem language:
+                </label>
+                <Select value={ocrLanguage} onValueChange={handleLanguageChange} disabled={isLoading}>
+                  <SelectTrigger id="ocrLanguage" className="w-full sm:w-64 bg-slate-700/80 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_LANGUAGE}>Detect automatically</SelectItem>
+                    {OCR_LANGUAGES.map((language) => (
+                      <SelectItem key={language.code} value={language.code}>{language.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             
-            {selectedImage && (
+            {hasUpload && (
               <div className="pt-4 border-t border-slate-700/50">
+                {ocrPages.length > 1 && (
+                  <div className="mb-3">
+                    <p className="text-sm font-medium text-slate-300 mb-1.5">Choose a page to visualize:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {ocrPages.map((page, index) => (
+                        <Button
+                          key={`${page.fileIndex}-${page.pageNumber}`}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleSelectPage(index)}
+                          disabled={isLoading}
+                          title={page.error ?? (page.text.trim() ? page.text.slice(0, 200) : "No text found")}
+                          className={`max-w-[14rem] ${
+                            index === selectedPage
+                              ? "border-amber-400 bg-amber-500/20 text-amber-200 hover:bg-amber-500/30 hover:text-amber-100"
+                              : page.error
+                                ? "border-red-500/60 text-red-300 hover:bg-red-500/10"
+                                : "border-slate-600 text-slate-300 hover:bg-slate-700"
+                          }`}
+                          type="button"
+                        >
+                          <span className="truncate">
+                            {page.fileName}
+                            {ocrPages.some((other) => other.fileIndex === page.fileIndex && other.pageNumber > 1) ? ` · p. ${page.pageNumber}` : ""}
+                          </span>
+                        </Button>
+                      ))}
+                    </div>
+                    {currentPage?.error && <p className="text-xs text-red-300 mt-1.5">This page could not be read: {currentPage.error}</p>}
+                  </div>
+                )}
+                {!isOcrLoading && pageProblems.length > 0 && (
+                  <div className="mb-3">
+                    <p className="text-sm font-medium text-slate-300 mb-1.5">
+                      Problems on this page{currentPage?.segmentation === 'llm' ? " (split automatically, please check)" : ""}:
+                    </p>
+                    <ProblemList
+                      problems={pageProblems}
+                      selected={selectedProblem}
+                      onSelect={handleSelectProblem}
+                      checked={checkedProblems}
+                      onCheckedChange={setCheckedProblems}
+                      disabled={isLoading}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="mt-2 border-pink-500 text-pink-300 hover:bg-pink-500/20 hover:text-pink-200 hover:border-pink-400 flex items-center gap-2"
+                      onClick={handleBatchVisualize}
+                      disabled={isLoading || checkedProblems.length === 0}
+                      type="button"
+                    >
+                      {isBatchRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Visualize selected ({checkedProblems.length})
+                    </Button>
+                  </div>
+                )}
                 <label htmlFor="ocrTextReview" className="block text-sm font-medium text-slate-300 mb-1.5">
-                  {isOcrLoading ? "Recognizing text..." : "Review recognized text:"}
+                  {isOcrLoading
+                    ? "Recognizing text..."
+                    : selectedProblem !== null && pageProblems[selectedProblem]
+                      ? `Review problem ${pageProblems[selectedProblem].label}:`
+                      : "Review recognized text:"}
                 </label>
                 <Textarea
                   id="ocrTextReview"
@@ -304,15 +846,77 @@ export default function HomePage() {
                   disabled={isLoading}
                   placeholder={isOcrLoading ? "" : "Text from image will appear here..."}
                 />
-                {!isOcrLoading && <p className="text-xs text-slate-400 mt-1">Correct any errors in the text from the image.</p>}
+                {!isOcrLoading && overlayImage && ocrLines && ocrLines.length > 0 && (
+                  <div className="mt-2">
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-sky-300"
+                      onClick={() => setIsOverlayOpen((open) => !open)}
+                      type="button"
+                    >
+                      {isOverlayOpen ? "Hide image comparison" : "Compare with the image"}
+                    </Button>
+                    {isOverlayOpen && (
+                      <div className="mt-2">
+                        <OcrOverlayReview image={overlayImage} lines={ocrLines} onSelectLine={handleSelectOcrLine} />
+                      </div>
+                    )}
+                  </div>
+                )}
+                {!isOcrLoading && containsMath(ocrText) && (
+                  <div className="mt-2">
+                    <p className="text-xs font-medium text-slate-300 mb-1">Formula preview:</p>
+                    <MathPreview text={ocrText} />
+                  </div>
+                )}
+                {!isOcrLoading && (
+                  <p className="text-xs text-slate-400 mt-1">
+                    Correct any errors in the text from the image.
+                    {ocrLanguage === AUTO_LANGUAGE && detectedScript && <> Detected script: <span className="capitalize">{detectedScript}</span>.</>}
+                  </p>
+                )}
               </div>
             )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="outputFormat" className="block text-sm font-medium text-slate-300 mb-1.5">
+                  Output format:
+                </label>
+                <Select value={outputFormat} onValueChange={setOutputFormat} disabled={isLoading}>
+                  <SelectTrigger id="outputFormat" className="w-full bg-slate-700/80 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="png">PNG image</SelectItem>
+                    <SelectItem value="svg">SVG (vector, for worksheets)</SelectItem>
+                    <SelectItem value="pdf">PDF (vector)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label htmlFor="outputDpi" className="block text-sm font-medium text-slate-300 mb-1.5">
+                  Resolution:
+                </label>
+                <Select value={outputDpi} onValueChange={setOutputDpi} disabled={isLoading || outputFormat !== "png"}>
+                  <SelectTrigger id="outputDpi" className="w-full bg-slate-700/80 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="100">Standard (100 DPI)</SelectItem>
+                    <SelectItem value="200">High (200 DPI)</SelectItem>
+                    <SelectItem value="300">Print (300 DPI)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
           </CardContent>
           <CardFooter>
             <Button 
               className="w-full bg-gradient-to-r from-purple-600 via-pink-600 to-red-600 hover:from-purple-700 hover:via-pink-700 hover:to-red-700 text-white font-semibold py-3 text-base disabled:opacity-70 flex items-center justify-center" // Added flex items-center justify-center for icon alignment
               onClick={handleSubmit}
-              disabled={isLoading || (!problemText.trim() && !selectedImage && !ocrText.trim())} // Adjusted disabled condition for submit
+              disabled={isLoading || (!problemText.trim() && !hasUpload && !ocrText.trim())} // Adjusted disabled condition for submit
             >
               {isVisualizing ? (
                 <>
@@ -328,7 +932,10 @@ export default function HomePage() {
           <Alert variant="destructive" className="bg-red-900/40 border-red-700/60 text-red-300 mt-6 shadow-lg">
             <Terminal className="h-4 w-4" color="#fca5a5"/>
             <AlertTitle className="text-red-200">Error Occurred</AlertTitle>
-            <AlertDescription>{error}</AlertDescription>
+            <AlertDescription>
+              {error}
+              {debugId && <span className="block mt-1 text-xs text-red-300/70 font-mono">Debug ID: {debugId}</span>}
+            </AlertDescription>
           </Alert>
         )}
 
@@ -338,28 +945,85 @@ export default function HomePage() {
               <CardTitle className="text-2xl text-slate-100">Generated Visualization</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="relative group aspect-video bg-slate-700/50 rounded-lg flex items-center justify-center border border-slate-600 overflow-hidden mb-4">
-                <img 
-                  ref={imageRef}
-                  src={`data:image/png;base64,${imageBase64}`} 
-                  alt="Generated Math Visualization" 
-                  className="max-w-full max-h-full object-contain cursor-pointer transition-transform duration-150 ease-in-out group-hover:scale-105"
-                  onClick={handleToggleFullScreen} 
-                />
-                {/* Overlay Exit Fullscreen button - only visible when this image is fullscreen via JS check */} 
-                {isInFullScreen && document.fullscreenElement === imageRef.current && (
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="absolute top-2 right-2 z-50 bg-black/50 hover:bg-black/75 text-white hover:text-white"
-                    onClick={handleToggleFullScreen} // Same toggle function works for exit
-                    title="Exit Full Screen"
-                  >
-                    <XCircle size={24} />
-                  </Button>
+              <Tabs value={resultTab} onValueChange={setResultTab}>
+                {generatedCode && (
+                  <TabsList className="mb-2 bg-slate-700/60 text-slate-300">
+                    <TabsTrigger value="image" className="text-slate-300 data-[state=active]:bg-slate-900 data-[state=active]:text-slate-100">Image</TabsTrigger>
+                    <TabsTrigger value="code" className="text-slate-300 data-[state=active]:bg-slate-900 data-[state=active]:text-slate-100">Code</TabsTrigger>
+                  </TabsList>
                 )}
-              </div>
-              <p className="text-xs text-slate-400 text-center">Image generated based on the problem description. Click image to toggle full screen.</p>
+                {/* Kept mounted so the carousel keeps its position while the code is open */}
+                <TabsContent value="image" forceMount className="data-[state=inactive]:hidden">
+                  {figures.length > 1 ? (
+                    <Carousel setApi={setCarouselApi} className="mb-4">
+                      <CarouselContent>
+                        {figures.map((figure, index) => (
+                          <CarouselItem key={index}>{renderFigure(figure, index)}</CarouselItem>
+                        ))}
+                      </CarouselContent>
+                      <CarouselPrevious className="left-2 z-10 bg-slate-800/80 border-slate-600 text-slate-200 hover:bg-slate-700" />
+                      <CarouselNext className="right-2 z-10 bg-slate-800/80 border-slate-600 text-slate-200 hover:bg-slate-700" />
+                    </Carousel>
+                  ) : (
+                    currentFigure && <div className="mb-4">{renderFigure(currentFigure, 0)}</div>
+                  )}
+                  {figures.length > 1 && (
+                    <p className="text-xs text-slate-400 text-center mb-1">Figure {selectedFigure + 1} of {figures.length}</p>
+                  )}
+                  <p className="text-xs text-slate-400 text-center">Image generated based on the problem description. Click image to toggle full screen.</p>
+                </TabsContent>
+                {generatedCode && (
+                  <TabsContent value="code" className="space-y-3">
+                    <label htmlFor="generatedCode" className="block text-sm font-medium text-slate-300">
+                      {resultMode === "scene" ? "Scene description:" : "Generated Python script:"}
+                    </label>
+                    <CodeEditor
+                      id="generatedCode"
+                      value={editedCode}
+                      onChange={setEditedCode}
+                      language={resultMode === "scene" ? "json" : "python"}
+                      disabled={isRerunning}
+                    />
+                    {rerunError && <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded-md border border-red-700/60 bg-red-900/40 p-2 text-xs text-red-300">{rerunError}</pre>}
+                    <div>
+                      <label htmlFor="renderToken" className="block text-sm font-medium text-slate-300 mb-1">Access token:</label>
+                      <Input
+                        id="renderToken"
+                        type="password"
+                        value={renderToken}
+                        onChange={handleRenderTokenChange}
+                        placeholder={requiresRenderToken ? "Required to re-run code" : "Only needed when the server sets one"}
+                        autoComplete="off"
+                        className="bg-slate-700/80 border-slate-600 text-white"
+                      />
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                      <Button
+                        onClick={handleRerunCode}
+                        variant="outline"
+                        className="w-full sm:w-auto border-amber-500 text-amber-300 hover:bg-amber-500/20 hover:text-amber-200 hover:border-amber-400 flex items-center gap-2"
+                        disabled={isRerunning || isLoading || !editedCode.trim() || !canRerun}
+                        type="button"
+                      >
+                        {isRerunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play size={18} />}
+                        Re-run
+                      </Button>
+                      <Button
+                        onClick={() => {
+                          setEditedCode(generatedCode);
+                          setRerunError(null);
+                        }}
+                        variant="ghost"
+                        className="w-full sm:w-auto text-slate-300 hover:bg-slate-700 hover:text-slate-100 flex items-center gap-2"
+                        disabled={isRerunning || editedCode === generatedCode}
+                        type="button"
+                      >
+                        <RotateCcw size={18} /> Reset to generated code
+                      </Button>
+                    </div>
+                  </TabsContent>
+                )}
+              </Tabs>
             </CardContent>
             <CardFooter className="flex flex-col sm:flex-row gap-3 justify-center">
               <Button
@@ -367,8 +1031,18 @@ export default function HomePage() {
                 variant="outline"
                 className="w-full sm:w-auto border-green-500 text-green-300 hover:bg-green-500/20 hover:text-green-200 hover:border-green-400 flex items-center gap-2"
               >
-                <DownloadCloud size={18} /> Download PNG
+                <DownloadCloud size={18} /> Download {figures.length > 1 ? `Figure ${selectedFigure + 1} ` : ''}{(FILE_EXTENSIONS[imageMimeType] ?? 'png').toUpperCase()}
               </Button>
+              {shareUrl && (
+                <Button
+                  onClick={handleCopyShareLink}
+                  variant="outline"
+                  className="w-full sm:w-auto border-purple-500 text-purple-300 hover:bg-purple-500/20 hover:text-purple-200 hover:border-purple-400 flex items-center gap-2"
+                >
+                  {isLinkCopied ? <Check size={18} /> : <Link2 size={18} />}
+                  {isLinkCopied ? 'Link Copied!' : 'Copy Shareable Link'}
+                </Button>
+              )}
               <Button 
                 onClick={handleToggleFullScreen} 
                 variant="outline"
@@ -381,20 +1055,9 @@ export default function HomePage() {
           </Card>
         )}
         
-        {isVisualizing && !imageBase64 && !error && (
-          <Card className="mt-8 bg-slate-800/70 border-slate-700 shadow-xl">
-            <CardContent className="pt-6 text-center">
-              <div className="flex justify-center items-center mb-3">
-                  <svg className="animate-spin h-10 w-10 text-pink-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-              </div>
-              <p className="text-slate-300 text-lg font-medium">Generating Visualization...</p>
-              <p className="text-slate-400 text-sm">Please wait a moment.</p>
-            </CardContent>
-          </Card>
-        )}
+        {isVisualizing && !imageBase64 && !error && <VisualizationProgress progress={progress} />}
+
+        {batchItems.length > 0 && <BatchResults items={batchItems} />}
       </div>
     </main>
   );
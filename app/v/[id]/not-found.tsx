@@ -0,0 +1,31 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+
+export default function SharedVisualizationNotFound() {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-4 sm:p-8 bg-gradient-to-br from-slate-900 to-slate-800 text-white">
+      <div className="w-full max-w-2xl">
+        <Card className="bg-slate-800/70 border-slate-700 shadow-xl text-center">
+          <CardHeader>
+            <CardTitle className="text-2xl text-slate-100">Visualization not found</CardTitle>
+            <CardDescription className="text-slate-400">
+              This link is invalid or the visualization has expired.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-slate-300">You can create a new visualization from the problem text.</p>
+          </CardContent>
+          <CardFooter className="justify-center">
+            <Button
+              asChild
+              className="bg-gradient-to-r from-purple-600 via-pink-600 to-red-600 hover:from-purple-700 hover:via-pink-700 hover:to-red-700 text-white font-semibold"
+            >
+              <Link href="/">Go to Math Problem Visualizer</Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    </main>
+  );
+}
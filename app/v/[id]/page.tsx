@@ -0,0 +1,137 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { cache } from "react";
+import { notFound } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { loadVisualization } from "@/lib/visualize/persist";
+
+// Metadata and the page both need the record; load it once per request
+const getVisualization = cache(loadVisualization);
+
+type SharePageProps = {
+  params: Promise<{ id: string }>;
+};
+
+// Link previews in chat apps need absolute URLs
+async function getSiteOrigin(): Promise<string> {
+  if (process.env.NEXT_PUBLIC_SITE_URL) return process.env.NEXT_PUBLIC_SITE_URL;
+  const headerList = await headers();
+  const host = headerList.get("x-forwarded-host") ?? headerList.get("host") ?? "localhost:3000";
+  const protocol = headerList.get("x-forwarded-proto") ?? (host.startsWith("localhost") ? "http" : "https");
+  return `${protocol}://${host}`;
+}
+
+// Short single-line summary of the problem for titles and previews
+function summarize(problemText: string, maxLength: number): string {
+  const singleLine = problemText.replace(/\s+/g, " ").trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const { id } = await params;
+  const visualization = await getVisualization(id);
+  if (!visualization) {
+    return { title: "Visualization not found | Math Problem Visualizer" };
+  }
+
+  const origin = await getSiteOrigin();
+  // Link previews only show raster images, so SVG and PDF results are shared without one
+  const imageUrl = visualization.mimeType === "image/png" ? new URL(visualization.imageUrl, origin).toString() : null;
+  const description = summarize(visualization.problemText, 200);
+
+  return {
+    metadataBase: new URL(origin),
+    title: "Math Problem Visualization",
+    description,
+    openGraph: {
+      type: "article",
+      title: "Math Problem Visualization",
+      description,
+      url: `/v/${id}`,
+      ...(imageUrl ? { images: [{ url: imageUrl, alt: summarize(visualization.problemText, 100) }] } : {}),
+    },
+    twitter: {
+      card: imageUrl ? "summary_large_image" : "summary",
+      title: "Math Problem Visualization",
+      description,
+      ...(imageUrl ? { images: [imageUrl] } : {}),
+    },
+  };
+}
+
+export default async function SharedVisualizationPage({ params }: SharePageProps) {
+  const { id } = await params;
+  const visualization = await getVisualization(id);
+  if (!visualization) {
+    notFound();
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-4 sm:p-8 bg-gradient-to-br from-slate-900 to-slate-800 text-white">
+      <div className="w-full max-w-2xl space-y-8">
+        <header className="text-center">
+          <h1 className="text-4xl font-bold tracking-tight sm:text-5xl mb-4 bg-clip-text text-transparent bg-gradient-to-r from-purple-400 via-pink-500 to-red-500">
+            Math Problem Visualizer
+          </h1>
+        </header>
+
+        <Card className="bg-slate-800/70 border-slate-700 shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-2xl text-slate-100">Problem</CardTitle>
+            <CardDescription className="text-slate-400">
+              Shared on {new Date(visualization.createdAt).toLocaleDateString("en-US", { dateStyle: "medium" })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="whitespace-pre-wrap text-slate-200">{visualization.problemText}</p>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-8 bg-slate-800/70 border-slate-700 shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-2xl text-slate-100">Generated Visualization</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {visualization.figures.map((figure, index) => (
+                <figure key={index}>
+                  <div className="relative aspect-video bg-slate-700/50 rounded-lg flex items-center justify-center border border-slate-600 overflow-hidden">
+                    {figure.mimeType === "application/pdf" ? (
+                      <object data={figure.imageUrl} type="application/pdf" className="w-full h-full" aria-label={`Generated Math Visualization ${index + 1} (PDF)`}>
+                        <a href={figure.imageUrl} className="text-sky-300 underline">Open the PDF</a>
+                      </object>
+                    ) : (
+                      <img
+                        src={figure.imageUrl}
+                        alt={figure.caption ?? "Generated Math Visualization"}
+                        className="max-w-full max-h-full object-contain"
+                      />
+                    )}
+                  </div>
+                  {(figure.caption || visualization.figures.length > 1) && (
+                    <figcaption dir="auto" className="mt-2 text-center text-sm text-slate-400">
+                      {visualization.figures.length > 1 && `Figure ${index + 1} of ${visualization.figures.length}`}
+                      {figure.caption && visualization.figures.length > 1 && ": "}
+                      {figure.caption}
+                    </figcaption>
+                  )}
+                </figure>
+              ))}
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-col sm:flex-row gap-3 justify-center">
+            <Button
+              asChild
+              variant="outline"
+              className="w-full sm:w-auto border-sky-500 text-sky-300 hover:bg-sky-500/20 hover:text-sky-200 hover:border-sky-400"
+            >
+              <Link href="/">Visualize your own problem</Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { VisualizationFigure } from "@/lib/visualize/pipeline";
+import { buildWorksheet, downloadBlob, FIGURE_EXTENSIONS, figureFileName, WorksheetFormat } from "@/lib/export/worksheet";
+import { DownloadCloud, FileDown, Loader2 } from "lucide-react";
+
+export type BatchItemStatus = 'running' | 'done' | 'failed';
+
+// One problem of a batch run and what came back for it
+export interface BatchItem {
+  label: string;
+  problemText: string;
+  status: BatchItemStatus;
+  figures: VisualizationFigure[];
+  error: string | null;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  running: "Visualizing",
+  done: "Done",
+  failed: "Failed",
+};
+
+function downloadFigure(figure: VisualizationFigure, fileName: string) {
+  const link = document.createElement('a');
+  link.href = `data:${figure.mimeType};base64,${figure.imageBase64}`;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+export default function BatchResults({ items }: { items: BatchItem[] }) {
+  const [exportFormat, setExportFormat] = useState<WorksheetFormat>('pdf');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const finished = items.filter((item) => item.status === 'done' || item.status === 'failed').length;
+  const succeeded = items.filter((item) => item.status === 'done');
+
+  // The whole worksheet in one file: figures with their problem texts in a ZIP, or a page per problem in a PDF
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const blob = await buildWorksheet(succeeded, exportFormat);
+      downloadBlob(blob, `worksheet.${exportFormat}`);
+    } catch (exportFailure: any) {
+      console.error("Worksheet export failed:", exportFailure);
+      setExportError(`Export failed: ${exportFailure.message || 'Unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card className="mt-8 bg-slate-800/70 border-slate-700 shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl text-slate-100 flex items-center justify-between gap-3">
+          Batch Results
+          <span className="text-sm font-normal text-slate-400">{finished} of {items.length} finished</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {items.map((item, index) => (
+          <div key={index} className="rounded-lg border border-slate-700 bg-slate-900/40 p-3">
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <p dir="auto" className="min-w-0 truncate text-sm text-slate-200">
+                <span className="font-medium">{item.label}</span>
+                <span className="text-slate-400"> {item.problemText.replace(/\s+/g, " ")}</span>
+              </p>
+              <Badge
+                variant="outline"
+                className={`shrink-0 ${
+                  item.status === 'done'
+                    ? "border-green-500 text-green-300"
+                    : item.status === 'failed'
+                      ? "border-red-500 text-red-300"
+                      : "border-slate-500 text-slate-300"
+                }`}
+              >
+                {item.status === 'running' && <Loader2 className="h-3 w-3 animate-spin" />}
+                {STATUS_LABELS[item.status]}
+              </Badge>
+            </div>
+            {item.error && <p className="text-xs text-red-300">{item.error}</p>}
+            {item.figures.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {item.figures.map((figure, figureIndex) => (
+                  <figure key={figureIndex} className="rounded-md border border-slate-600 bg-slate-700/40 p-2">
+                    {figure.mimeType === "application/pdf" ? (
+                      <div className="aspect-video flex items-center justify-center text-xs text-slate-400">PDF figure</div>
+                    ) : (
+                      <img
+                        src={`data:${figure.mimeType};base64,${figure.imageBase64}`}
+                        alt={figure.caption ?? `Visualization of problem ${item.label}`}
+                        className="w-full aspect-video object-contain"
+                      />
+                    )}
+                    <figcaption className="mt-2 flex items-center justify-between gap-2 text-xs text-slate-300">
+                      <span className="truncate">{figure.caption}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => downloadFigure(figure, figureFileName(item.label, figureIndex, item.figures.length, figure.mimeType))}
+                        className="shrink-0 text-green-300 hover:bg-green-500/20 hover:text-green-200"
+                        type="button"
+                      >
+                        <DownloadCloud size={16} /> {(FIGURE_EXTENSIONS[figure.mimeType] ?? "png").toUpperCase()}
+                      </Button>
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+      <CardFooter className="flex flex-col gap-2">
+        <div className="flex w-full flex-col sm:flex-row gap-3 justify-center">
+          <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as WorksheetFormat)} disabled={isExporting}>
+            <SelectTrigger aria-label="Export format" className="w-full sm:w-56 bg-slate-700/80 border-slate-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pdf">PDF, one page per problem</SelectItem>
+              <SelectItem value="zip">ZIP of figures and texts</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={handleExport}
+            variant="outline"
+            className="w-full sm:w-auto border-green-500 text-green-300 hover:bg-green-500/20 hover:text-green-200 hover:border-green-400 flex items-center gap-2"
+            disabled={isExporting || finished < items.length || succeeded.length === 0}
+            type="button"
+          >
+            {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown size={18} />}
+            Download Worksheet
+          </Button>
+        </div>
+        {exportError && <p className="text-xs text-red-300">{exportError}</p>}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Drawer, DrawerContent, DrawerDescription, DrawerFooter, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { Camera, Check, Loader2, RefreshCw, RotateCcw } from "lucide-react";
+
+type FacingMode = 'environment' | 'user';
+
+interface CameraCaptureProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCapture: (file: File) => void; // Receives the photo as a JPEG file, like a file picked from disk
+}
+
+interface CapturedPhoto {
+  blob: Blob;
+  previewUrl: string;
+}
+
+// Readable messages for the getUserMedia failures users actually hit
+function describeCameraError(error: unknown): string {
+  const name = error instanceof DOMException ? error.name : "";
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return "Camera access was denied. Allow camera access in your browser settings, or upload a photo instead.";
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return "No camera was found on this device. Upload a photo instead.";
+  }
+  if (name === 'NotReadableError') {
+    return "The camera is in use by another application.";
+  }
+  return "The camera could not be started. Upload a photo instead.";
+}
+
+export default function CameraCapture({ open, onOpenChange, onCapture }: CameraCaptureProps) {
+  const isMobile = useIsMobile();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment'); // Back camera first, it is the one pointed at paper
+  const [canSwitchCamera, setCanSwitchCamera] = useState<boolean>(false);
+  const [isStarting, setIsStarting] = useState<boolean>(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [photo, setPhoto] = useState<CapturedPhoto | null>(null);
+
+  const stopStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  // Run the live preview while the dialog is open and nothing has been captured yet
+  useEffect(() => {
+    if (!open || photo) return;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError("This browser does not support camera access. Upload a photo instead.");
+      return;
+    }
+
+    let cancelled = false;
+    setIsStarting(true);
+    setCameraError(null);
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: facingMode }, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(async (stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+        }
+        // Device labels and counts are only reliable once permission has been granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) {
+          setCanSwitchCamera(devices.filter((device) => device.kind === 'videoinput').length > 1);
+        }
+      })
+      .catch((error) => {
+        console.error("Camera Error:", error);
+        if (!cancelled) setCameraError(describeCameraError(error));
+      })
+      .finally(() => {
+        if (!cancelled) setIsStarting(false);
+      });
+
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [open, photo, facingMode, stopStream]);
+
+  // Drop the captured photo once the dialog closes
+  useEffect(() => {
+    if (!open) setPhoto(null);
+  }, [open]);
+
+  useEffect(() => {
+    return () => {
+      if (photo) URL.revokeObjectURL(photo.previewUrl);
+    };
+  }, [photo]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    // Grab the frame at the camera's native resolution, not the on-screen size
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          setCameraError("The photo could not be captured. Please try again.");
+          return;
+        }
+        stopStream();
+        setPhoto({ blob, previewUrl: URL.createObjectURL(blob) });
+      },
+      'image/jpeg',
+      0.92
+    );
+  };
+
+  const handleUsePhoto = () => {
+    if (!photo) return;
+    onCapture(new File([photo.blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    onOpenChange(false);
+  };
+
+  const handleSwitchCamera = () => {
+    setFacingMode((current) => (current === 'environment' ? 'user' : 'environment'));
+  };
+
+  const body = (
+    <div className="relative aspect-[4/3] w-full bg-black rounded-lg overflow-hidden flex items-center justify-center">
+      {photo ? (
+        <img src={photo.previewUrl} alt="Captured problem" className="w-full h-full object-contain" />
+      ) : (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={`w-full h-full object-contain ${facingMode === 'user' ? '-scale-x-100' : ''}`} // Mirror the selfie preview only
+        />
+      )}
+      {isStarting && !photo && (
+        <Loader2 className="absolute h-8 w-8 animate-spin text-slate-300" />
+      )}
+      {cameraError && (
+        <p className="absolute inset-x-4 text-center text-sm text-red-300 bg-black/70 rounded-md p-3">{cameraError}</p>
+      )}
+    </div>
+  );
+
+  const actions = photo ? (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setPhoto(null)}
+        className="border-slate-500 text-slate-200 hover:bg-slate-700 flex items-center gap-2"
+        type="button"
+      >
+        <RotateCcw size={18} /> Retake
+      </Button>
+      <Button onClick={handleUsePhoto} className="bg-amber-500 hover:bg-amber-600 text-slate-900 flex items-center gap-2" type="button">
+        <Check size={18} /> Use Photo
+      </Button>
+    </>
+  ) : (
+    <>
+      {canSwitchCamera && (
+        <Button
+          variant="outline"
+          onClick={handleSwitchCamera}
+          disabled={isStarting}
+          className="border-slate-500 text-slate-200 hover:bg-slate-700 flex items-center gap-2"
+          type="button"
+        >
+          <RefreshCw size={18} /> Switch Camera
+        </Button>
+      )}
+      <Button
+        onClick={handleCapture}
+        disabled={isStarting || !!cameraError}
+        className="bg-amber-500 hover:bg-amber-600 text-slate-900 flex items-center gap-2"
+        type="button"
+      >
+        <Camera size={18} /> Capture
+      </Button>
+    </>
+  );
+
+  const title = "Take a picture";
+  const description = "Fit the whole problem in the frame and hold the camera steady.";
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="bg-slate-800 border-slate-700 text-slate-100">
+          <DrawerHeader>
+            <DrawerTitle className="text-slate-100">{title}</DrawerTitle>
+            <DrawerDescription className="text-slate-400">{description}</DrawerDescription>
+          </DrawerHeader>
+          <div className="px-4">{body}</div>
+          <DrawerFooter>{actions}</DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-slate-100 sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">{title}</DialogTitle>
+          <DialogDescription className="text-slate-400">{description}</DialogDescription>
+        </DialogHeader>
+        {body}
+        <DialogFooter className="gap-2">{actions}</DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import Editor from "react-simple-code-editor";
+import Prism from "prismjs";
+import "prismjs/components/prism-python";
+import "prismjs/components/prism-json";
+import "prismjs/themes/prism-tomorrow.css";
+
+export type CodeLanguage = 'python' | 'json';
+
+interface CodeEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  language: CodeLanguage; // Python scripts, or the scene JSON in scene mode
+  disabled?: boolean;
+}
+
+// A textarea with syntax highlighting underneath; Tab indents with four spaces, as in the generated scripts.
+export default function CodeEditor({ id, value, onChange, language, disabled }: CodeEditorProps) {
+  return (
+    <div className="max-h-[28rem] overflow-auto rounded-md border border-slate-600 bg-slate-950/80 focus-within:border-amber-500">
+      <Editor
+        textareaId={id}
+        value={value}
+        onValueChange={onChange}
+        highlight={(code) => Prism.highlight(code, Prism.languages[language], language)}
+        disabled={disabled}
+        tabSize={4}
+        insertSpaces
+        padding={12}
+        spellCheck={false}
+        className="min-h-[12rem] font-mono text-xs leading-5 text-slate-100"
+        textareaClassName="outline-none"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { PointerEvent, useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  CropRect,
+  DEFAULT_EDITS,
+  encodeForOcr,
+  FULL_CROP,
+  ImageEdits,
+  loadImage,
+  measureSkew,
+  OCR_MAX_DIMENSION,
+  renderEdits,
+  scaleToFit,
+} from "@/lib/image/editImage";
+import { Check, Crop, Loader2, RotateCcw, RotateCw, Wand2 } from "lucide-react";
+
+const PREVIEW_MAX_DIMENSION = 1000;
+const MIN_CROP = 0.03; // Smaller drags are treated as a click and clear the crop
+
+interface ImageEditorProps {
+  file: File | null;                 // Open while an image is waiting to be edited
+  onCancel: () => void;
+  onConfirm: (file: File) => void;   // Receives the edited JPEG, sized for OCR
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export default function ImageEditor({ file, onCancel, onConfirm }: ImageEditorProps) {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [previewSource, setPreviewSource] = useState<HTMLCanvasElement | null>(null);
+  const [edits, setEdits] = useState<ImageEdits>(DEFAULT_EDITS);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState<boolean>(false);
+
+  // Load the new image and level it straight away; the slider shows what was applied
+  useEffect(() => {
+    setSource(null);
+    setPreviewSource(null);
+    setEdits(DEFAULT_EDITS);
+    setLoadError(null);
+    if (!file) return;
+
+    let cancelled = false;
+    loadImage(file)
+      .then((image) => {
+        if (cancelled) return;
+        const preview = scaleToFit(image, PREVIEW_MAX_DIMENSION);
+        setSource(image);
+        setPreviewSource(preview);
+        setEdits({ ...DEFAULT_EDITS, angle: measureSkew(preview) });
+      })
+      .catch((error) => {
+        console.error("Image load error:", error);
+        if (!cancelled) setLoadError("This image could not be opened. Try a PNG, JPEG or WebP file.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // The preview shows rotation and contrast; the crop is drawn over it
+  useEffect(() => {
+    const canvas = previewRef.current;
+    if (!canvas || !previewSource) return;
+    const rendered = renderEdits(previewSource, { ...edits, crop: FULL_CROP });
+    canvas.width = rendered.width;
+    canvas.height = rendered.height;
+    canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+  }, [previewSource, edits.quarterTurns, edits.angle, edits.contrast]); // Not the crop: dragging only moves the overlay
+
+  const pointerPosition = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: clamp((event.clientX - rect.left) / rect.width), y: clamp((event.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = pointerPosition(event);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const point = pointerPosition(event);
+    const crop: CropRect = {
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    };
+    setEdits((current) => ({ ...current, crop }));
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    setEdits((current) =>
+      current.crop.width < MIN_CROP || current.crop.height < MIN_CROP ? { ...current, crop: FULL_CROP } : current
+    );
+  };
+
+  // Crop coordinates belong to the rotated frame, so a quarter turn starts a new crop
+  const rotate = (direction: 1 | -1) => {
+    setEdits((current) => ({ ...current, quarterTurns: (current.quarterTurns + direction + 4) % 4, crop: FULL_CROP }));
+  };
+
+  const handleDeskew = () => {
+    if (!previewSource) return;
+    const upright = renderEdits(previewSource, { ...DEFAULT_EDITS, quarterTurns: edits.quarterTurns });
+    setEdits((current) => ({ ...current, angle: measureSkew(upright) }));
+  };
+
+  const handleConfirm = async () => {
+    if (!file || !source) return;
+    setIsApplying(true);
+    try {
+      const edited = await encodeForOcr(renderEdits(source, edits, OCR_MAX_DIMENSION), file.name);
+      onConfirm(edited);
+    } catch (error) {
+      console.error("Image edit error:", error);
+      setLoadError("The edited image could not be saved. Please try again.");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const isCropped = edits.crop !== FULL_CROP;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !isApplying && onCancel()}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-slate-100 sm:max-w-3xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">Prepare the image</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Drag over the image to crop to a single exercise, and straighten it so the text lines are level.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center bg-slate-900/60 rounded-lg p-2 min-h-[200px] items-center">
+          {loadError ? (
+            <p className="text-sm text-red-300 text-center">{loadError}</p>
+          ) : !previewSource ? (
+            <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
+          ) : (
+            <div
+              className="relative inline-block overflow-hidden cursor-crosshair select-none touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <canvas ref={previewRef} className="block max-w-full max-h-[50vh]" />
+              {isCropped && (
+                <div
+                  className="absolute border-2 border-amber-400 pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                  style={{
+                    left: `${edits.crop.x * 100}%`,
+                    top: `${edits.crop.y * 100}%`,
+                    width: `${edits.crop.width * 100}%`,
+                    height: `${edits.crop.height * 100}%`,
+                  }}
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => rotate(-1)} disabled={!previewSource} className="border-slate-500 text-slate-200 hover:bg-slate-700" type="button">
+              <RotateCcw size={16} /> Rotate Left
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => rotate(1)} disabled={!previewSource} className="border-slate-500 text-slate-200 hover:bg-slate-700" type="button">
+              <RotateCw size={16} /> Rotate Right
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDeskew} disabled={!previewSource} className="border-slate-500 text-slate-200 hover:bg-slate-700" type="button">
+              <Wand2 size={16} /> Auto-Straighten
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setEdits((current) => ({ ...current, crop: FULL_CROP }))}
+              disabled={!isCropped}
+              className="border-slate-500 text-slate-200 hover:bg-slate-700"
+              type="button"
+            >
+              <Crop size={16} /> Clear Crop
+            </Button>
+          </div>
+
+          <div>
+            <label htmlFor="imageAngle" className="flex justify-between text-sm font-medium text-slate-300 mb-2">
+              <span>Fine rotation</span>
+              <span className="tabular-nums text-slate-400">{edits.angle.toFixed(1)}°</span>
+            </label>
+            <Slider
+              id="imageAngle"
+              min={-15}
+              max={15}
+              step={0.1}
+              value={[edits.angle]}
+              onValueChange={([angle]) => setEdits((current) => ({ ...current, angle }))}
+              disabled={!previewSource}
+            />
+          </div>
+
+          <label htmlFor="imageContrast" className="flex items-center gap-3 text-sm font-medium text-slate-300">
+            <Switch
+              id="imageContrast"
+              checked={edits.contrast}
+              onCheckedChange={(contrast) => setEdits((current) => ({ ...current, contrast }))}
+              disabled={!previewSource}
+            />
+            Boost contrast (helps with faint or shadowed photos)
+          </label>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel} disabled={isApplying} className="border-slate-500 text-slate-200 hover:bg-slate-700" type="button">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!source || isApplying}
+            className="bg-amber-500 hover:bg-amber-600 text-slate-900 flex items-center gap-2"
+            type="button"
+          >
+            {isApplying ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check size={18} />}
+            Use Image
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
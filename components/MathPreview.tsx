@@ -0,0 +1,57 @@
+"use client";
+
+import { useMemo } from 'react';
+import katex from "katex";
+import "katex/dist/katex.min.css";
+
+type Segment =
+  | { kind: 'text'; text: string }
+  | { kind: 'math'; tex: string; display: boolean };
+
+// $$...$$ and \[...\] are display math, $...$ and \(...\) inline; a lone $ stays text
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\$([^$\n]+?)\$|\\\(([\s\S]+?)\\\)/g;
+
+function splitMath(text: string): Segment[] {
+  const segments: Segment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ kind: 'text', text: text.slice(last, index) });
+    const display = match[1] !== undefined || match[2] !== undefined;
+    segments.push({ kind: 'math', tex: match[1] ?? match[2] ?? match[3] ?? match[4] ?? '', display });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push({ kind: 'text', text: text.slice(last) });
+  return segments;
+}
+
+export function containsMath(text: string): boolean {
+  return splitMath(text).some((segment) => segment.kind === 'math');
+}
+
+// Live rendering of OCR text with LaTeX formulas, so students can check them before visualizing.
+// Invalid LaTeX is shown in red in place instead of hiding the whole preview.
+export default function MathPreview({ text }: { text: string }) {
+  const rendered = useMemo(
+    () =>
+      splitMath(text).map((segment) =>
+        segment.kind === 'text'
+          ? segment
+          : { ...segment, html: katex.renderToString(segment.tex, { displayMode: segment.display, throwOnError: false, output: 'html' }) }
+      ),
+    [text]
+  );
+
+  return (
+    <div dir="auto" className="rounded-md border border-slate-600 bg-slate-900/60 px-3 py-2 text-sm text-slate-100 whitespace-pre-wrap leading-relaxed">
+      {rendered.map((segment, index) =>
+        segment.kind === 'text' ? (
+          <span key={index}>{segment.text}</span>
+        ) : (
+          // KaTeX escapes its input and, without the trust option, emits no links or raw HTML
+          <span key={index} dangerouslySetInnerHTML={{ __html: segment.html }} />
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import type { OCRLine, OCRWord } from "@/lib/ocr/types";
+import { AlertTriangle } from "lucide-react";
+
+// Words below this confidence are listed for review and outlined in red
+const LOW_CONFIDENCE = 70;
+
+interface OcrOverlayReviewProps {
+  image: Blob;                          // The image that was sent to OCR; boxes are in its pixels
+  lines: OCRLine[];
+  onSelectLine: (line: OCRLine) => void; // Find the line in the editable text
+}
+
+interface WordRef {
+  line: number;
+  word: number;
+}
+
+const isLowConfidence = (word: OCRWord) => word.confidence !== null && word.confidence < LOW_CONFIDENCE;
+
+// The OCR'd image with every recognized word outlined. Clicking a word on the image or
+// in the low-confidence list highlights it in both places and selects its line in the text.
+export default function OcrOverlayReview({ image, lines, onSelectLine }: OcrOverlayReviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [active, setActive] = useState<WordRef | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(image);
+    setImageUrl(url);
+    setSize(null);
+    setActive(null);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const hasConfidence = lines.some((line) => line.confidence !== null);
+  const suspicious: WordRef[] = lines.flatMap((line, lineIndex) =>
+    line.words.flatMap((word, wordIndex) => (isLowConfidence(word) ? [{ line: lineIndex, word: wordIndex }] : []))
+  );
+
+  const select = (ref: WordRef, scroll: boolean) => {
+    setActive(ref);
+    onSelectLine(lines[ref.line]);
+    if (scroll) {
+      containerRef.current
+        ?.querySelector(`[data-word="${ref.line}-${ref.word}"]`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div ref={containerRef} className="max-h-[50vh] overflow-auto rounded-md border border-slate-600 bg-slate-900/60">
+        <div className="relative inline-block">
+          {imageUrl && (
+            <img
+              src={imageUrl}
+              alt="Image sent to OCR"
+              className="block max-w-full"
+              onLoad={(event) => setSize({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight })}
+            />
+          )}
+          {size &&
+            lines.map((line, lineIndex) =>
+              line.words.map((word, wordIndex) => {
+                const isActive = active?.line === lineIndex;
+                const low = isLowConfidence(word);
+                return (
+                  <button
+                    key={`${lineIndex}-${wordIndex}`}
+                    type="button"
+                    data-word={`${lineIndex}-${wordIndex}`}
+                    title={word.confidence !== null ? `${word.text} (${word.confidence}% confidence)` : word.text}
+                    onClick={() => select({ line: lineIndex, word: wordIndex }, false)}
+                    className={`absolute rounded-sm border transition-colors ${
+                      isActive && active?.word === wordIndex
+                        ? "border-amber-300 bg-amber-400/40"
+                        : isActive
+                          ? "border-amber-400/80 bg-amber-400/15"
+                          : low
+                            ? "border-red-400 bg-red-500/20 hover:bg-red-500/35"
+                            : "border-sky-400/40 hover:bg-sky-400/20"
+                    }`}
+                    style={{
+                      left: `${(word.left / size.width) * 100}%`,
+                      top: `${(word.top / size.height) * 100}%`,
+                      width: `${(word.width / size.width) * 100}%`,
+                      height: `${(word.height / size.height) * 100}%`,
+                    }}
+                  />
+                );
+              })
+            )}
+        </div>
+      </div>
+
+      {!hasConfidence ? (
+        <p className="text-xs text-slate-400">Click a word on the image to find its line in the text.</p>
+      ) : suspicious.length === 0 ? (
+        <p className="text-xs text-slate-400">All words were recognized with high confidence.</p>
+      ) : (
+        <div>
+          <p className="flex items-center gap-1.5 text-xs font-medium text-amber-300 mb-1.5">
+            <AlertTriangle size={14} /> Check these words against the image:
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            {suspicious.map((ref) => {
+              const word = lines[ref.line].words[ref.word];
+              const isActive = active?.line === ref.line && active?.word === ref.word;
+              return (
+                <button
+                  key={`${ref.line}-${ref.word}`}
+                  type="button"
+                  onClick={() => select(ref, true)}
+                  className={`rounded-full border px-2 py-0.5 text-xs ${
+                    isActive ? "border-amber-300 bg-amber-400/30 text-amber-100" : "border-red-400/70 text-red-200 hover:bg-red-500/20"
+                  }`}
+                >
+                  {word.text} <span className="text-slate-400">{word.confidence}%</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import type { ProblemSegment } from "@/lib/ocr/segment";
+
+interface ProblemListProps {
+  problems: ProblemSegment[];
+  selected: number | null;                 // Problem shown in the review textarea; null for the whole page
+  onSelect: (index: number | null) => void;
+  checked: number[];                       // Problems picked for a batch run
+  onCheckedChange: (checked: number[]) => void;
+  disabled?: boolean;
+}
+
+// The exercises found on a page. Clicking one reviews it alone; the checkboxes pick
+// several to visualize in one go.
+export default function ProblemList({ problems, selected, onSelect, checked, onCheckedChange, disabled }: ProblemListProps) {
+  const toggle = (index: number, isChecked: boolean) => {
+    const next = isChecked ? [...checked, index] : checked.filter((other) => other !== index);
+    onCheckedChange(next.sort((a, b) => a - b));
+  };
+  const allChecked = checked.length === problems.length;
+
+  return (
+    <div className="rounded-md border border-slate-600 bg-slate-900/40 divide-y divide-slate-700/70">
+      <div className="flex items-center gap-3 px-3 py-2">
+        <Checkbox
+          checked={allChecked ? true : checked.length > 0 ? "indeterminate" : false}
+          onCheckedChange={(value) => onCheckedChange(value === true ? problems.map((_, index) => index) : [])}
+          disabled={disabled}
+          aria-label="Select all problems"
+          className="border-slate-500"
+        />
+        <button
+          type="button"
+          onClick={() => onSelect(null)}
+          disabled={disabled}
+          className={`flex-1 text-left text-sm ${selected === null ? "text-amber-300 font-medium" : "text-slate-300 hover:text-slate-100"}`}
+        >
+          Whole page ({problems.length} problems)
+        </button>
+      </div>
+      {problems.map((problem, index) => (
+        <div key={index} className={`flex items-start gap-3 px-3 py-2 ${selected === index ? "bg-amber-500/10" : ""}`}>
+          <Checkbox
+            checked={checked.includes(index)}
+            onCheckedChange={(value) => toggle(index, value === true)}
+            disabled={disabled}
+            aria-label={`Select problem ${problem.label}`}
+            className="mt-0.5 border-slate-500"
+          />
+          <button
+            type="button"
+            onClick={() => onSelect(index)}
+            disabled={disabled}
+            dir="auto"
+            className="flex-1 min-w-0 text-left text-sm"
+          >
+            <span className={`font-medium ${selected === index ? "text-amber-300" : "text-slate-200"}`}>{problem.label}</span>
+            <span className="block truncate text-xs text-slate-400">{problem.text.replace(/\s+/g, " ")}</span>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Circle, Loader2, Wrench } from "lucide-react";
+
+export type ProgressStage = 'connecting' | 'generating' | 'executing' | 'repairing';
+
+// Client-side view of the SSE events from /api/visualize/stream
+export interface VisualizationProgressState {
+  stage: ProgressStage;
+  attempt: number;
+  code: string;                 // Code streamed so far for the current attempt
+  repairReason: string | null;  // Why the previous attempt was sent back to the model
+}
+
+export const INITIAL_PROGRESS: VisualizationProgressState = {
+  stage: 'connecting',
+  attempt: 0,
+  code: "",
+  repairReason: null,
+};
+
+// Human-readable names for the error codes that trigger a repair
+const REPAIR_REASONS: Record<string, string> = {
+  PYTHON_EXECUTION_FAILED: "the script raised an error",
+  PYTHON_NO_IMAGE: "the script did not produce an image",
+  SANDBOX_VIOLATION: "the script used a forbidden feature",
+  PYTHON_TIMEOUT: "the script took too long",
+  PYTHON_CPU_LIMIT: "the script took too long",
+  SCENE_INVALID: "the scene description was invalid",
+};
+
+const STEPS: { stage: ProgressStage; label: string }[] = [
+  { stage: 'connecting', label: "Sending problem" },
+  { stage: 'generating', label: "Writing visualization code" },
+  { stage: 'executing', label: "Rendering the figure" },
+];
+
+function stepIndex(stage: ProgressStage): number {
+  // A repair goes back to code generation
+  return stage === 'repairing' ? 1 : STEPS.findIndex((step) => step.stage === stage);
+}
+
+export default function VisualizationProgress({ progress }: { progress: VisualizationProgressState }) {
+  const codeRef = useRef<HTMLPreElement>(null);
+  const current = stepIndex(progress.stage);
+
+  // Keep the newest streamed code in view
+  useEffect(() => {
+    if (codeRef.current) codeRef.current.scrollTop = codeRef.current.scrollHeight;
+  }, [progress.code]);
+
+  return (
+    <Card className="mt-8 bg-slate-800/70 border-slate-700 shadow-xl">
+      <CardHeader className="flex flex-row items-center justify-between gap-3">
+        <CardTitle className="text-xl text-slate-100">Generating Visualization...</CardTitle>
+        {progress.attempt > 1 && (
+          <Badge variant="outline" className="border-amber-500 text-amber-300">Attempt {progress.attempt}</Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ol className="space-y-2">
+          {STEPS.map((step, index) => (
+            <li key={step.stage} className="flex items-center gap-2 text-sm">
+              {index < current ? (
+                <CheckCircle2 className="h-4 w-4 text-green-400" />
+              ) : index === current ? (
+                <Loader2 className="h-4 w-4 animate-spin text-pink-400" />
+              ) : (
+                <Circle className="h-4 w-4 text-slate-600" />
+              )}
+              <span className={index <= current ? "text-slate-200" : "text-slate-500"}>{step.label}</span>
+            </li>
+          ))}
+        </ol>
+
+        {progress.repairReason && (
+          <p className="flex items-center gap-2 text-xs text-amber-300">
+            <Wrench className="h-3.5 w-3.5" />
+            Previous attempt failed because {REPAIR_REASONS[progress.repairReason] ?? "of an error"}; asking the AI to fix it.
+          </p>
+        )}
+
+        {progress.code && (
+          <pre
+            ref={codeRef}
+            className="max-h-64 overflow-auto rounded-lg border border-slate-600 bg-slate-900/80 p-3 text-xs leading-relaxed text-slate-300"
+          >
+            <code>{progress.code}</code>
+          </pre>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { VisualizeRequest } from '../visualize/request';
+import { normalizeProblemText, visualizationCacheKey } from './cacheKey';
+
+const request: VisualizeRequest = {
+  problemText: 'A circle has radius 5.',
+  mode: 'python',
+  output: { format: 'png', dpi: 100, width: 8, height: 6 },
+  language: null,
+  noCache: false,
+};
+
+describe('normalizeProblemText', () => {
+  it('collapses whitespace and Unicode forms but keeps case', () => {
+    expect(normalizeProblemText('  Find\tx\n\nwhen  X² = ４ ')).toBe('Find x when X2 = 4');
+  });
+});
+
+describe('visualizationCacheKey', () => {
+  const key = visualizationCacheKey(request, 'model-a');
+
+  it('is a stable sha256 hex digest', () => {
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(visualizationCacheKey({ ...request }, 'model-a')).toBe(key);
+  });
+
+  it('ignores differences that normalization removes, and noCache', () => {
+    expect(visualizationCacheKey({ ...request, problemText: ' A  circle has\nradius 5. ', noCache: true }, 'model-a')).toBe(key);
+  });
+
+  it.each<[string, Partial<VisualizeRequest>]>([
+    ['problem text', { problemText: 'A circle has radius 6.' }],
+    ['letter case', { problemText: 'A CIRCLE has radius 5.' }],
+    ['mode', { mode: 'scene' }],
+    ['language', { language: 'heb' }],
+    ['format', { output: { ...request.output, format: 'svg' } }],
+    ['dpi', { output: { ...request.output, dpi: 200 } }],
+    ['figure size', { output: { ...request.output, width: 10 } }],
+  ])('changes with the %s', (_, change) => {
+    expect(visualizationCacheKey({ ...request, ...change }, 'model-a')).not.toBe(key);
+  });
+
+  it('changes with the model', () => {
+    expect(visualizationCacheKey(request, 'model-b')).not.toBe(key);
+  });
+});
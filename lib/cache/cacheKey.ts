@@ -0,0 +1,26 @@
+import { createHash } from 'crypto';
+import { PROMPT_VERSION } from '../visualize/prompts';
+import type { VisualizeRequest } from '../visualize/request';
+
+// Photos of the same exercise differ in whitespace and Unicode forms after OCR,
+// but not in content. Case is kept: x and X can be different variables.
+export function normalizeProblemText(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+// Everything that can change the rendered image goes into the key.
+export function visualizationCacheKey(request: VisualizeRequest, model: string): string {
+  const { format, dpi, width, height } = request.output;
+  const material = JSON.stringify([
+    normalizeProblemText(request.problemText),
+    PROMPT_VERSION,
+    model,
+    request.mode,
+    request.language,
+    format,
+    dpi,
+    width,
+    height,
+  ]);
+  return createHash('sha256').update(material).digest('hex');
+}
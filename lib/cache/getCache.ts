@@ -0,0 +1,37 @@
+import { createMemoryCache } from './memoryCache';
+import { VisualizationCache } from './types';
+
+const DEFAULT_MAX_ENTRIES = 200;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+const maxEntries = Number.parseInt(process.env.VISUALIZE_CACHE_MAX_ENTRIES || '', 10);
+const ttlSeconds = Number.parseFloat(process.env.VISUALIZE_CACHE_TTL_SECONDS || '');
+
+// How long a cached result is served before the problem is generated again
+export const CACHE_TTL_MS = (Number.isFinite(ttlSeconds) && ttlSeconds > 0 ? ttlSeconds : DEFAULT_TTL_SECONDS) * 1000;
+
+// Shared by every route bundle in the process (see lib/jobs/getJobStore)
+const globalForCache = globalThis as typeof globalThis & { __visualizationCache?: Promise<VisualizationCache | null> };
+
+// Resolve the backend from VISUALIZE_CACHE (memory | supabase | none, defaults to memory).
+export function getVisualizationCache(): Promise<VisualizationCache | null> {
+  if (!globalForCache.__visualizationCache) {
+    const backend = process.env.VISUALIZE_CACHE || 'memory';
+    globalForCache.__visualizationCache = (async () => {
+      switch (backend) {
+        case 'memory':
+          return createMemoryCache(Number.isFinite(maxEntries) && maxEntries > 0 ? maxEntries : DEFAULT_MAX_ENTRIES);
+        case 'supabase': {
+          const { createSupabaseCache } = await import('./supabaseCache');
+          return createSupabaseCache();
+        }
+        case 'none':
+          return null;
+        default:
+          console.warn(`Unknown VISUALIZE_CACHE '${backend}', results will not be cached`);
+          return null;
+      }
+    })();
+  }
+  return globalForCache.__visualizationCache;
+}
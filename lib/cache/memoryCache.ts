@@ -0,0 +1,32 @@
+import { CachedVisualization, VisualizationCache } from './types';
+
+interface Entry {
+  value: CachedVisualization;
+  expiresAt: number;
+}
+
+// Least-recently-used cache in process memory. A Map iterates in insertion order,
+// so re-inserting on every hit keeps the oldest entry first in line for eviction.
+export function createMemoryCache(maxEntries: number): VisualizationCache {
+  const entries = new Map<string, Entry>();
+
+  return {
+    name: 'memory',
+    async get(key: string): Promise<CachedVisualization | null> {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return null;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async set(key: string, value: CachedVisualization, ttlMs: number): Promise<void> {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { supabaseAdmin } from '../supabaseServerClient';
+import { CachedVisualization, VisualizationCache } from './types';
+
+const TABLE = 'visualization_cache';
+
+// Shared cache in a Supabase table (see supabase/migrations), reached with the service
+// role key only. Expired rows are ignored on read and overwritten on the next store for the same key.
+export function createSupabaseCache(): VisualizationCache {
+  return {
+    name: 'supabase',
+    async get(key: string): Promise<CachedVisualization | null> {
+      const { data, error } = await supabaseAdmin
+        .from(TABLE)
+        .select('entry')
+        .eq('key', key)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+      if (error) throw new Error(`Failed to read cache entry: ${error.message}`);
+      return (data?.entry as CachedVisualization | undefined) ?? null;
+    },
+    async set(key: string, value: CachedVisualization, ttlMs: number): Promise<void> {
+      const { error } = await supabaseAdmin.from(TABLE).upsert({
+        key,
+        entry: value,
+        created_at: value.cachedAt,
+        expires_at: new Date(Date.now() + ttlMs).toISOString(),
+      });
+      if (error) throw new Error(`Failed to write cache entry: ${error.message}`);
+    },
+  };
+}
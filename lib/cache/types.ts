@@ -0,0 +1,20 @@
+// A successful visualization response kept for reuse by identical requests.
+export interface CachedVisualization {
+  imageBase64: string;
+  mimeType: string;
+  figures: { imageBase64: string; mimeType: string; caption: string | null }[];
+  mode: string;
+  code: string;
+  model: string;
+  attempts: number;
+  id: string | null;        // Saved visualization, so cache hits share the original link
+  publicUrl: string | null;
+  shareUrl: string | null;
+  cachedAt: string;         // ISO timestamp
+}
+
+export interface VisualizationCache {
+  readonly name: string;
+  get(key: string): Promise<CachedVisualization | null>;
+  set(key: string, value: CachedVisualization, ttlMs: number): Promise<void>;
+}
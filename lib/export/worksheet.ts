@@ -0,0 +1,202 @@
+import JSZip from 'jszip';
+import { PDFDocument, PDFImage, PDFPage } from 'pdf-lib';
+import { loadImage } from '../image/editImage';
+import type { VisualizationFigure } from '../visualize/pipeline';
+
+// Browser-side export of a batch run: every problem with its figures, as a ZIP of files
+// or as a printable PDF with one page per problem. Uses canvases, so client only.
+
+export interface WorksheetProblem {
+  label: string;
+  problemText: string;
+  figures: VisualizationFigure[];
+}
+
+export type WorksheetFormat = 'zip' | 'pdf';
+
+export const FIGURE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+};
+
+// "problem-3", from labels like "3", "Question 3" or "(a)"
+export function problemFileBase(label: string): string {
+  return `problem-${label.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'untitled'}`;
+}
+
+// "problem-3-2.png": the figure number is added only when the problem has several
+export function figureFileName(label: string, figureIndex: number, figureCount: number, mimeType: string): string {
+  const suffix = figureCount > 1 ? `-${figureIndex + 1}` : '';
+  return `${problemFileBase(label)}${suffix}.${FIGURE_EXTENSIONS[mimeType] ?? 'png'}`;
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+// Files are numbered in worksheet order, so two exercises with the same label stay apart
+export async function buildWorksheetZip(problems: WorksheetProblem[]): Promise<Blob> {
+  const zip = new JSZip();
+  problems.forEach((problem, index) => {
+    const prefix = `${String(index + 1).padStart(2, '0')}-`;
+    zip.file(`${prefix}${problemFileBase(problem.label)}.txt`, `${problem.problemText.trim()}\n`);
+    problem.figures.forEach((figure, figureIndex) => {
+      const name = figureFileName(problem.label, figureIndex, problem.figures.length, figure.mimeType);
+      zip.file(`${prefix}${name}`, figure.imageBase64, { base64: true });
+    });
+  });
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+const PAGE_WIDTH = 595.28;  // A4, in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const GAP = 16;
+const TEXT_SCALE = 3;       // Canvas pixels per point, so the text stays sharp in print
+
+const RTL_CHARACTER = /[\u0590-\u08FF]/;
+
+interface TextBlock {
+  png: Uint8Array;
+  height: number; // Points
+}
+
+// Standard PDF fonts cannot show Hebrew, Arabic or Cyrillic, so text is drawn by the
+// browser onto a canvas, which also takes care of right-to-left lines, and embedded as an image.
+async function renderTextBlock(text: string, width: number, fontSize: number, color = '#111827'): Promise<TextBlock | null> {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx || !text.trim()) return null;
+
+  const font = `${fontSize * TEXT_SCALE}px system-ui, -apple-system, "Segoe UI", Arial, sans-serif`;
+  const maxWidth = width * TEXT_SCALE;
+  ctx.font = font;
+
+  const lines: string[] = [];
+  for (const paragraph of text.trim().split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+
+  const lineHeight = fontSize * 1.4 * TEXT_SCALE;
+  canvas.width = Math.ceil(maxWidth);
+  canvas.height = Math.ceil(lines.length * lineHeight);
+  ctx.font = font; // Resizing the canvas resets its state
+  ctx.fillStyle = color;
+  ctx.textBaseline = 'top';
+  lines.forEach((line, i) => {
+    const rtl = RTL_CHARACTER.test(line);
+    ctx.direction = rtl ? 'rtl' : 'ltr';
+    ctx.textAlign = rtl ? 'right' : 'left';
+    ctx.fillText(line, rtl ? canvas.width : 0, i * lineHeight + lineHeight * 0.15);
+  });
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) return null;
+  return { png: new Uint8Array(await blob.arrayBuffer()), height: canvas.height / TEXT_SCALE };
+}
+
+// SVG figures are rasterized at twice their size; PDF pages cannot embed SVG directly.
+async function svgToPng(figure: VisualizationFigure): Promise<Uint8Array> {
+  const image = await loadImage(new Blob([decodeBase64(figure.imageBase64)], { type: 'image/svg+xml' }));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, image.naturalWidth * 2);
+  canvas.height = Math.max(1, image.naturalHeight * 2);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('The figure could not be encoded');
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+// Draw a figure centred in the box whose top edge is at `top`, keeping its aspect ratio.
+// PDF figures stay vector by embedding their first page.
+async function drawFigure(pdf: PDFDocument, page: PDFPage, figure: VisualizationFigure, top: number, boxHeight: number) {
+  const boxWidth = PAGE_WIDTH - 2 * MARGIN;
+  const embedded =
+    figure.mimeType === 'application/pdf'
+      ? (await pdf.embedPdf(decodeBase64(figure.imageBase64), [0]))[0]
+      : await pdf.embedPng(figure.mimeType === 'image/svg+xml' ? await svgToPng(figure) : decodeBase64(figure.imageBase64));
+
+  const scale = Math.min(boxWidth / embedded.width, boxHeight / embedded.height);
+  const width = embedded.width * scale;
+  const height = embedded.height * scale;
+  const options = { x: MARGIN + (boxWidth - width) / 2, y: top - height, width, height };
+  if (embedded instanceof PDFImage) {
+    page.drawImage(embedded, options);
+  } else {
+    page.drawPage(embedded, options);
+  }
+  return height;
+}
+
+// One A4 page per problem: its text on top, then its figures stacked in the space left.
+// Problems without figures (failed ones) are left out.
+export async function buildWorksheetPdf(problems: WorksheetProblem[]): Promise<Blob> {
+  const pdf = await PDFDocument.create();
+  const contentWidth = PAGE_WIDTH - 2 * MARGIN;
+
+  for (const problem of problems) {
+    if (problem.figures.length === 0) continue;
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let top = PAGE_HEIGHT - MARGIN;
+
+    const heading = await renderTextBlock(problem.label, contentWidth, 14);
+    const text = await renderTextBlock(problem.problemText, contentWidth, 11);
+    for (const block of [heading, text]) {
+      if (!block) continue;
+      const image = await pdf.embedPng(block.png);
+      page.drawImage(image, { x: MARGIN, y: top - block.height, width: contentWidth, height: block.height });
+      top -= block.height + GAP / 2;
+    }
+    top -= GAP / 2;
+
+    const captions = await Promise.all(problem.figures.map((figure) => renderTextBlock(figure.caption ?? '', contentWidth, 9, '#4b5563')));
+    const captionHeight = captions.reduce((sum, caption) => sum + (caption ? caption.height + GAP / 2 : 0), 0);
+    const freeHeight = top - MARGIN - captionHeight - GAP * (problem.figures.length - 1);
+    const slotHeight = Math.max(freeHeight / problem.figures.length, 120); // A very long text pushes figures off the page rather than to nothing
+
+    for (const [index, figure] of problem.figures.entries()) {
+      top -= (await drawFigure(pdf, page, figure, top, slotHeight)) + GAP / 2;
+      const caption = captions[index];
+      if (caption) {
+        const image = await pdf.embedPng(caption.png);
+        page.drawImage(image, { x: MARGIN, y: top - caption.height, width: contentWidth, height: caption.height });
+        top -= caption.height;
+      }
+      top -= GAP / 2;
+    }
+  }
+
+  if (pdf.getPageCount() === 0) throw new Error('None of the problems has a figure to export');
+  const bytes = await pdf.save();
+  return new Blob([bytes], { type: 'application/pdf' });
+}
+
+export function buildWorksheet(problems: WorksheetProblem[], format: WorksheetFormat): Promise<Blob> {
+  return format === 'zip' ? buildWorksheetZip(problems) : buildWorksheetPdf(problems);
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
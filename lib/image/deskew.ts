@@ -0,0 +1,82 @@
+// Skew estimation for photographed text, by projection profiles: when the image is
+// rotated so the text lines are level, the dark pixels pile up into a few rows and
+// the row histogram is at its most uneven.
+
+const MAX_SAMPLES = 60_000; // Dark pixels scored per angle; enough for a stable profile
+
+// Otsu's threshold over a grayscale histogram.
+function otsuThreshold(gray: ArrayLike<number>): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let backgroundWeight = 0;
+  let backgroundSum = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let i = 0; i < 256; i++) {
+    backgroundWeight += histogram[i];
+    if (backgroundWeight === 0) continue;
+    const foregroundWeight = gray.length - backgroundWeight;
+    if (foregroundWeight === 0) break;
+    backgroundSum += i * histogram[i];
+    const meanDifference = backgroundSum / backgroundWeight - (sum - backgroundSum) / foregroundWeight;
+    const between = backgroundWeight * foregroundWeight * meanDifference * meanDifference;
+    if (between > best) {
+      best = between;
+      threshold = i;
+    }
+  }
+  return threshold;
+}
+
+// Estimate how far the text lines in a grayscale image are tilted and return the
+// rotation, in degrees clockwise, that levels them. Returns 0 when there is too
+// little ink to tell.
+export function estimateSkewAngle(gray: ArrayLike<number>, width: number, height: number, maxAngle = 15): number {
+  const threshold = otsuThreshold(gray);
+  const stride = Math.max(1, Math.ceil((width * height) / (MAX_SAMPLES * 4))); // Most pixels are paper, so sample generously
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < gray.length; i += stride) {
+    if (gray[i] <= threshold) {
+      xs.push(i % width);
+      ys.push(Math.floor(i / width));
+    }
+  }
+  // Dark pixels are ink only when they are the minority; otherwise the threshold split a photo, not a page
+  if (xs.length < 50 || xs.length > gray.length / stride / 2) return 0;
+
+  const bins = new Float64Array(width + height + 2);
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] * cos - xs[i] * sin) + width]++;
+    }
+    let total = 0;
+    for (let i = 0; i < bins.length; i++) total += bins[i] * bins[i];
+    return total;
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const value = score(angle);
+      if (value > bestScore) {
+        bestScore = value;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  };
+
+  const coarse = search(-maxAngle, maxAngle, 1);
+  const tilt = search(coarse - 1, coarse + 1, 0.1);
+  return Math.round(-tilt * 10) / 10 || 0; // Avoid -0 in the UI
+}
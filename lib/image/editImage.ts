@@ -0,0 +1,168 @@
+import { estimateSkewAngle } from './deskew';
+
+// Browser-side image preparation before OCR. Everything here draws on canvases,
+// so it only runs in client components.
+
+export const OCR_MAX_BYTES = 1024 * 1024; // OCR.space rejects larger uploads on the free plan
+export const OCR_MAX_DIMENSION = 2400;    // Plenty for printed text; larger only slows the upload
+
+export interface CropRect {
+  x: number;      // All fractions of the rotated image, 0..1
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdits {
+  quarterTurns: number; // Clockwise 90° steps, 0..3
+  angle: number;        // Fine rotation in degrees, clockwise
+  crop: CropRect;
+  contrast: boolean;    // Stretch the levels so faint pencil and grey photos read as ink on paper
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const DEFAULT_EDITS: ImageEdits = {
+  quarterTurns: 0,
+  angle: 0,
+  crop: FULL_CROP,
+  contrast: false,
+};
+
+type ImageSource = HTMLImageElement | HTMLCanvasElement;
+
+function sizeOf(source: ImageSource) {
+  return source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+}
+
+function context2d(canvas: HTMLCanvasElement) {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  return ctx;
+}
+
+export function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The image could not be read'));
+    };
+    image.src = url;
+  });
+}
+
+// A downscaled copy for previews and analysis, so they stay fast on phone photos.
+export function scaleToFit(source: ImageSource, maxDimension: number): HTMLCanvasElement {
+  const { width, height } = sizeOf(source);
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = createCanvas(width * scale, height * scale);
+  context2d(canvas).drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// Auto-levels: map the 1st..99th luminance percentiles to black..white.
+function boostContrast(canvas: HTMLCanvasElement) {
+  const ctx = context2d(canvas);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const pixels = imageData.data;
+
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[Math.round(0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2])]++;
+  }
+  const total = pixels.length / 4;
+  let low = 0;
+  let high = 255;
+  for (let seen = 0; low < 255 && (seen += histogram[low]) < total * 0.01; low++);
+  for (let seen = 0; high > 0 && (seen += histogram[high]) < total * 0.01; high--);
+  if (high - low < 16) return; // Flat image; stretching would only amplify noise
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = (pixels[i] - low) * scale;         // Uint8ClampedArray clamps to 0..255
+    pixels[i + 1] = (pixels[i + 1] - low) * scale;
+    pixels[i + 2] = (pixels[i + 2] - low) * scale;
+  }
+  ctx.putImageData(imageData, 0, 0);
+}
+
+// Apply rotation, crop and contrast, scaling the result down to maxDimension.
+export function renderEdits(source: ImageSource, edits: ImageEdits, maxDimension = Infinity): HTMLCanvasElement {
+  const { width, height } = sizeOf(source);
+  const radians = (((edits.quarterTurns % 4) * 90 + edits.angle) * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const rotatedWidth = width * cos + height * sin;
+  const rotatedHeight = width * sin + height * cos;
+
+  const { crop } = edits;
+  const croppedWidth = rotatedWidth * crop.width;
+  const croppedHeight = rotatedHeight * crop.height;
+  const scale = Math.min(1, maxDimension / Math.max(croppedWidth, croppedHeight));
+
+  const canvas = createCanvas(croppedWidth * scale, croppedHeight * scale);
+  const ctx = context2d(canvas);
+  ctx.fillStyle = '#ffffff'; // Corners uncovered by a fine rotation read as paper, not as ink
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * rotatedWidth + rotatedWidth / 2, -crop.y * rotatedHeight + rotatedHeight / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+
+  if (edits.contrast) boostContrast(canvas);
+  return canvas;
+}
+
+// The fine rotation, in degrees, that levels the text lines in the image.
+export function measureSkew(source: ImageSource): number {
+  const canvas = scaleToFit(source, 800);
+  const pixels = context2d(canvas).getImageData(0, 0, canvas.width, canvas.height).data;
+  const gray = new Uint8Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2]);
+  }
+  return estimateSkewAngle(gray, canvas.width, canvas.height);
+}
+
+function toJpeg(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The image could not be encoded'))), 'image/jpeg', quality);
+  });
+}
+
+// Encode as JPEG under the OCR upload limit, lowering quality first and then resolution.
+export async function encodeForOcr(canvas: HTMLCanvasElement, fileName: string, maxBytes = OCR_MAX_BYTES): Promise<File> {
+  const name = `${fileName.replace(/\.[^.]+$/, '') || 'image'}.jpg`;
+  let current = canvas;
+  for (;;) {
+    for (const quality of [0.92, 0.85, 0.75]) {
+      const blob = await toJpeg(current, quality);
+      if (blob.size <= maxBytes || Math.max(current.width, current.height) < 400) {
+        return new File([blob], name, { type: 'image/jpeg' });
+      }
+    }
+    current = scaleToFit(current, Math.max(current.width, current.height) * 0.75);
+  }
+}
+
+// Size an image for OCR without edits, for uploads of several files that skip the editor.
+export async function prepareForOcr(file: File): Promise<File> {
+  const image = await loadImage(file);
+  return encodeForOcr(renderEdits(image, DEFAULT_EDITS, OCR_MAX_DIMENSION), file.name);
+}
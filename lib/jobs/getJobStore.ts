@@ -0,0 +1,24 @@
+import { createMemoryJobStore } from './memoryJobStore';
+import { JobStore } from './types';
+
+// Route handlers can be bundled separately, so the store lives on globalThis to be
+// shared by POST /api/visualize/jobs and GET /api/visualize/jobs/[id].
+const globalForJobs = globalThis as typeof globalThis & { __visualizationJobStore?: Promise<JobStore> };
+
+// Resolve the store from JOB_STORE (memory | supabase, defaults to memory).
+export function getJobStore(): Promise<JobStore> {
+  if (!globalForJobs.__visualizationJobStore) {
+    const backend = process.env.JOB_STORE || 'memory';
+    globalForJobs.__visualizationJobStore = (async () => {
+      if (backend === 'supabase') {
+        const { createSupabaseJobStore } = await import('./supabaseJobStore');
+        return createSupabaseJobStore();
+      }
+      if (backend !== 'memory') {
+        console.warn(`Unknown JOB_STORE '${backend}', falling back to memory`);
+      }
+      return createMemoryJobStore();
+    })();
+  }
+  return globalForJobs.__visualizationJobStore;
+}
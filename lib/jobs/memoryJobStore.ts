@@ -0,0 +1,49 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { VisualizeRequest } from '../visualize/request';
+import { applyJobUpdate, JOB_TTL_MS, JobStore, JobUpdate, VisualizationJob } from './types';
+
+// Process-local store. Fine for a single server instance; use the Supabase store
+// when several instances serve the API.
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, VisualizationJob>();
+
+  const prune = () => {
+    const cutoff = Date.now() - JOB_TTL_MS;
+    for (const [id, job] of jobs) {
+      if (new Date(job.updatedAt).getTime() < cutoff) jobs.delete(id);
+    }
+  };
+
+  return {
+    name: 'memory',
+    async create(request: VisualizeRequest): Promise<VisualizationJob> {
+      prune();
+      const now = new Date().toISOString();
+      const job: VisualizationJob = {
+        id: uuidv4(),
+        status: 'queued',
+        request,
+        createdAt: now,
+        updatedAt: now,
+        finishedAt: null,
+        attempt: 0,
+        history: [{ status: 'queued', at: now }],
+        result: null,
+        error: null,
+        httpStatus: null,
+      };
+      jobs.set(job.id, job);
+      return job;
+    },
+    async get(id: string): Promise<VisualizationJob | null> {
+      return jobs.get(id) ?? null;
+    },
+    async update(id: string, update: JobUpdate): Promise<VisualizationJob | null> {
+      const job = jobs.get(id);
+      if (!job) return null;
+      const updated = applyJobUpdate(job, update);
+      jobs.set(id, updated);
+      return updated;
+    },
+  };
+}
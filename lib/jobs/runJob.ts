@@ -0,0 +1,43 @@
+import { runVisualizeRequest } from '../visualize/request';
+import { JobStore } from './types';
+
+// Drive a queued job through the pipeline, recording each stage in the store.
+// Never throws: unexpected errors mark the job as failed.
+export async function runJob(store: JobStore, jobId: string): Promise<void> {
+  // Progress callbacks are synchronous; chain the store writes so they land in order
+  let pending: Promise<unknown> = Promise.resolve();
+  const enqueue = (write: () => Promise<unknown>) => {
+    pending = pending.then(write).catch((err) => console.error(`Failed to update job ${jobId}:`, err));
+  };
+
+  try {
+    const job = await store.get(jobId);
+    if (!job || job.status !== 'queued') return;
+
+    const { status, body } = await runVisualizeRequest(job.request, {
+      onProgress: (event) => {
+        // Only stage changes are recorded; 'repairing' is followed immediately by 'generating'
+        if (event.stage !== 'generating' && event.stage !== 'executing') return;
+        enqueue(() => store.update(jobId, { status: event.stage, attempt: event.attempt }));
+      },
+    });
+    await pending;
+    const finishedAt = new Date().toISOString();
+    if (status === 200) {
+      await store.update(jobId, { status: 'done', result: body, httpStatus: status, finishedAt });
+    } else {
+      await store.update(jobId, { status: 'failed', error: body, httpStatus: status, finishedAt });
+    }
+  } catch (error: any) {
+    console.error(`❌ Job ${jobId} crashed:`, error);
+    await pending;
+    await store
+      .update(jobId, {
+        status: 'failed',
+        error: { error: 'Internal server error', details: error?.message },
+        httpStatus: 500,
+        finishedAt: new Date().toISOString(),
+      })
+      .catch((err) => console.error(`Failed to mark job ${jobId} as failed:`, err));
+  }
+}
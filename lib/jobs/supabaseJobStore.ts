@@ -0,0 +1,56 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../supabaseServerClient';
+import type { VisualizeRequest } from '../visualize/request';
+import { applyJobUpdate, JobStore, JobUpdate, VisualizationJob } from './types';
+
+const TABLE = 'visualization_jobs';
+
+// Ids are uuids; anything else would make Postgres reject the query instead of finding nothing
+const ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+// Persistent store: one row per job with the job document in a jsonb column
+// (see supabase/migrations), reached with the service role key only. Survives restarts
+// and is shared between instances.
+export function createSupabaseJobStore(): JobStore {
+  async function get(id: string): Promise<VisualizationJob | null> {
+    if (!ID_PATTERN.test(id)) return null;
+    const { data, error } = await supabaseAdmin.from(TABLE).select('job').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Failed to load job ${id}: ${error.message}`);
+    return (data?.job as VisualizationJob | undefined) ?? null;
+  }
+
+  return {
+    name: 'supabase',
+    async create(request: VisualizeRequest): Promise<VisualizationJob> {
+      const now = new Date().toISOString();
+      const job: VisualizationJob = {
+        id: uuidv4(),
+        status: 'queued',
+        request,
+        createdAt: now,
+        updatedAt: now,
+        finishedAt: null,
+        attempt: 0,
+        history: [{ status: 'queued', at: now }],
+        result: null,
+        error: null,
+        httpStatus: null,
+      };
+      const { error } = await supabaseAdmin.from(TABLE).insert({ id: job.id, status: job.status, job, updated_at: now });
+      if (error) throw new Error(`Failed to create job: ${error.message}`);
+      return job;
+    },
+    get,
+    async update(id: string, update: JobUpdate): Promise<VisualizationJob | null> {
+      const job = await get(id);
+      if (!job) return null;
+      const updated = applyJobUpdate(job, update);
+      const { error } = await supabaseAdmin
+        .from(TABLE)
+        .update({ status: updated.status, job: updated, updated_at: updated.updatedAt })
+        .eq('id', id);
+      if (error) throw new Error(`Failed to update job ${id}: ${error.message}`);
+      return updated;
+    },
+  };
+}
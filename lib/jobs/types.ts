@@ -0,0 +1,47 @@
+import type { VisualizeRequest } from '../visualize/request';
+
+// Jobs are kept this long after their last update so clients can still pick up the result;
+// clients stop polling a job after the same time
+export const JOB_TTL_MS = 60 * 60 * 1000;
+
+// Lifecycle of an async visualization job
+export type JobStatus = 'queued' | 'generating' | 'executing' | 'done' | 'failed';
+
+export interface JobStatusChange {
+  status: JobStatus;
+  at: string; // ISO timestamp
+  attempt?: number;
+}
+
+export interface VisualizationJob {
+  id: string;
+  status: JobStatus;
+  request: VisualizeRequest;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  attempt: number;                         // Current generation attempt (0 while queued)
+  history: JobStatusChange[];
+  result: Record<string, unknown> | null;  // Same body as a successful /api/visualize response
+  error: Record<string, unknown> | null;   // Same body as a failed /api/visualize response
+  httpStatus: number | null;               // Status the sync endpoint would have returned
+}
+
+export type JobUpdate = Partial<Pick<VisualizationJob, 'status' | 'attempt' | 'result' | 'error' | 'httpStatus' | 'finishedAt'>>;
+
+export interface JobStore {
+  readonly name: string;
+  create(request: VisualizeRequest): Promise<VisualizationJob>;
+  get(id: string): Promise<VisualizationJob | null>;
+  update(id: string, update: JobUpdate): Promise<VisualizationJob | null>;
+}
+
+// Apply an update, recording a history entry when the status or attempt changes
+export function applyJobUpdate(job: VisualizationJob, update: JobUpdate): VisualizationJob {
+  const now = new Date().toISOString();
+  const next: VisualizationJob = { ...job, ...update, updatedAt: now };
+  if (next.status !== job.status || next.attempt !== job.attempt) {
+    next.history = [...job.history, { status: next.status, at: now, ...(next.attempt ? { attempt: next.attempt } : {}) }];
+  }
+  return next;
+}
@@ -0,0 +1,38 @@
+// Typed errors raised by LLM providers, mirroring lib/python/errors.ts.
+
+export type LLMErrorCode =
+  | 'LLM_CONFIG'
+  | 'LLM_REQUEST_FAILED'
+  | 'LLM_BLOCKED'
+  | 'LLM_EMPTY_RESPONSE';
+
+export class LLMError extends Error {
+  readonly code: LLMErrorCode;
+  readonly details: unknown;
+
+  constructor(message: string, code: LLMErrorCode = 'LLM_REQUEST_FAILED', details?: unknown) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// Missing API key, unknown provider name and similar deployment problems.
+export class LLMConfigError extends LLMError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'LLM_CONFIG', details);
+    this.name = 'LLMConfigError';
+  }
+}
+
+// The provider refused to answer the prompt (safety filters and the like).
+export class LLMBlockedError extends LLMError {
+  readonly reason: string;
+
+  constructor(reason: string, details?: unknown) {
+    super(`Content blocked: ${reason}`, 'LLM_BLOCKED', details);
+    this.name = 'LLMBlockedError';
+    this.reason = reason;
+  }
+}
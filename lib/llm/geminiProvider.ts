@@ -0,0 +1,70 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LLMBlockedError, LLMConfigError, LLMError } from './errors';
+import { DEFAULT_GENERATE_OPTIONS, GenerateOptions, GenerateResult, LLMProvider } from './types';
+
+// Use Gemini 2.0 Flash - newer model with better performance
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+export function createGeminiProvider(
+  apiKey: string | undefined = process.env.GEMINI_API_KEY,
+  modelName: string = process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL
+): LLMProvider {
+  if (!apiKey) {
+    throw new LLMConfigError(
+      'AI service configuration error - API key not found',
+      'Please set the GEMINI_API_KEY environment variable'
+    );
+  }
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: 'gemini',
+    model: modelName,
+    async generateCode(prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> {
+      const model = genAI.getGenerativeModel({
+        model: modelName,
+        generationConfig: {
+          temperature: options.temperature ?? DEFAULT_GENERATE_OPTIONS.temperature,
+          topK: 1,
+          topP: 1,
+          maxOutputTokens: options.maxOutputTokens ?? DEFAULT_GENERATE_OPTIONS.maxOutputTokens,
+        }
+      });
+
+      let response;
+      try {
+        if (options.onChunk) {
+          const streamed = await model.generateContentStream(prompt);
+          for await (const chunk of streamed.stream) {
+            const text = chunk.candidates?.length ? chunk.text() : '';
+            if (text) options.onChunk(text);
+          }
+          response = await streamed.response;
+        } else {
+          response = (await model.generateContent(prompt)).response;
+        }
+      } catch (apiError: any) {
+        throw new LLMError(`Error calling Gemini API: ${apiError.message}`, 'LLM_REQUEST_FAILED', apiError.message);
+      }
+
+      if (!response) {
+        throw new LLMError('AI model returned an empty response', 'LLM_EMPTY_RESPONSE');
+      }
+      if (response.promptFeedback?.blockReason) {
+        throw new LLMBlockedError(response.promptFeedback.blockReason, response.promptFeedback);
+      }
+
+      const usage = response.usageMetadata;
+      return {
+        text: response.text(),
+        usage: usage
+          ? {
+              promptTokens: usage.promptTokenCount,
+              completionTokens: usage.candidatesTokenCount,
+              totalTokens: usage.totalTokenCount,
+            }
+          : null,
+      };
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import { LLMConfigError } from './errors';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { LLMProvider } from './types';
+
+export type LLMProviderName = 'gemini' | 'openai-compatible' | 'mock';
+
+// Resolve the provider configured by LLM_PROVIDER (defaults to Gemini).
+export function getLLMProvider(name: string = process.env.LLM_PROVIDER || 'gemini'): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider();
+    case 'openai':
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider();
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new LLMConfigError(
+        `AI service configuration error - unknown LLM provider '${name}'`,
+        'LLM_PROVIDER must be one of: gemini, openai-compatible, mock'
+      );
+  }
+}
@@ -0,0 +1,117 @@
+// Canned model responses used by the mock provider. Each fixture is valid output
+// for ENGINEERED_PROMPT_TEMPLATE so the full pipeline runs without network access.
+
+export interface MockFixture {
+  name: string;
+  keywords: string[]; // Matched case-insensitively against the problem text
+  response: string;   // Answer to the Python prompt
+  scene?: string;     // Answer to the scene prompt; falls back to `response`
+}
+
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    name: 'cannot-visualize',
+    keywords: ['[mock:cannot-visualize]'],
+    response: 'ERROR:CANNOT_VISUALIZE: The mock provider was asked to reject this problem.',
+  },
+  {
+    name: 'parts',
+    keywords: ['(a)', '(b)'],
+    response: `import matplotlib.pyplot as plt
+import numpy as np
+
+fig, ax = plt.subplots(num='(a) Triangle ABC')
+ax.plot([0, 4, 0, 0], [0, 0, 3, 0], color='tab:blue')
+ax.text(2, -0.4, '4cm', ha='center')
+ax.text(-0.6, 1.5, '3cm', va='center')
+ax.set_aspect('equal')
+ax.axis('off')
+
+fig, ax = plt.subplots(num='(b) Circumscribed circle')
+t = np.linspace(0, 2 * np.pi, 200)
+ax.plot(2 + 2.5 * np.cos(t), 1.5 + 2.5 * np.sin(t), color='tab:green')
+ax.plot([0, 4, 0, 0], [0, 0, 3, 0], color='tab:blue')
+ax.plot(2, 1.5, 'ko')
+ax.set_aspect('equal')
+ax.axis('off')`,
+    scene: JSON.stringify({
+      points: [{ id: 'A', x: 0, y: 0 }, { id: 'B', x: 4, y: 0 }, { id: 'C', x: 0, y: 3 }],
+      polygons: [{ vertices: ['A', 'B', 'C'] }],
+    }),
+  },
+  {
+    name: 'circle',
+    keywords: ['circle', 'radius', 'diameter'],
+    response: `import matplotlib.pyplot as plt
+import numpy as np
+
+fig, ax = plt.subplots()
+t = np.linspace(0, 2 * np.pi, 200)
+ax.plot(5 * np.cos(t), 5 * np.sin(t), color='tab:blue')
+ax.plot([0, 5], [0, 0], color='tab:red')
+ax.text(2.5, 0.3, 'r = 5', ha='center')
+ax.plot(0, 0, 'ko')
+ax.text(0.2, -0.6, 'O')
+ax.set_aspect('equal')
+ax.axis('off')`,
+    scene: JSON.stringify({
+      points: [{ id: 'O', x: 0, y: 0 }, { id: 'R', x: 5, y: 0, label: '' }],
+      segments: [{ from: 'O', to: 'R', label: 'r = 5' }],
+      circles: [{ center: 'O', radius: 5 }],
+    }),
+  },
+  {
+    name: 'function',
+    keywords: ['function', 'graph', 'parabola', 'y =', 'y='],
+    response: `import matplotlib.pyplot as plt
+import numpy as np
+
+fig, ax = plt.subplots()
+x = np.linspace(-4, 4, 200)
+ax.plot(x, x ** 2 - 4, color='tab:blue', label='y = x² - 4')
+ax.axhline(0, color='black', linewidth=0.8)
+ax.axvline(0, color='black', linewidth=0.8)
+ax.legend()
+ax.grid(True, alpha=0.3)`,
+    scene: JSON.stringify({
+      showAxes: true,
+      showGrid: true,
+      functions: [{ expression: 'x^2 - 4', xMin: -4, xMax: 4, label: 'y = x² - 4' }],
+    }),
+  },
+  {
+    name: 'triangle',
+    keywords: [],
+    response: `import matplotlib.pyplot as plt
+
+fig, ax = plt.subplots()
+A, B, C = (0, 0), (4, 0), (0, 3)
+ax.plot([A[0], B[0], C[0], A[0]], [A[1], B[1], C[1], A[1]], color='tab:blue')
+ax.plot([0, 0.3, 0.3], [0.3, 0.3, 0], color='black', linewidth=0.8)
+for name, (x, y), offset in (('A', A, (-0.3, -0.3)), ('B', B, (0.1, -0.3)), ('C', C, (-0.3, 0.1))):
+    ax.text(x + offset[0], y + offset[1], name, fontsize=12)
+ax.text(2, -0.4, '4cm', ha='center')
+ax.text(-0.6, 1.5, '3cm', va='center')
+ax.set_aspect('equal')
+ax.axis('off')`,
+    scene: JSON.stringify({
+      points: [{ id: 'A', x: 0, y: 0 }, { id: 'B', x: 4, y: 0 }, { id: 'C', x: 0, y: 3 }],
+      polygons: [{ vertices: ['A', 'B', 'C'] }],
+      segments: [{ from: 'A', to: 'B', label: '4cm' }, { from: 'C', to: 'A', label: '3cm' }],
+      angles: [{ vertex: 'A', from: 'B', to: 'C', right: true }],
+    }),
+  },
+];
+
+// Returned for the first attempt of problems tagged [mock:fail-once], to exercise the repair loop
+export const MOCK_BROKEN_RESPONSE = `import matplotlib.pyplot as plt
+
+fig, ax = plt.subplots()
+ax.plot([0, 1], [0, undefined_value])
+`;
+
+// Scene counterpart of MOCK_BROKEN_RESPONSE: references an undeclared point
+export const MOCK_BROKEN_SCENE_RESPONSE = JSON.stringify({
+  points: [{ id: 'A', x: 0, y: 0 }],
+  segments: [{ from: 'A', to: 'B' }],
+});
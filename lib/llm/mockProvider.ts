@@ -0,0 +1,85 @@
+import { MOCK_BROKEN_RESPONSE, MOCK_BROKEN_SCENE_RESPONSE, MOCK_FIXTURES, MockFixture } from './mockFixtures';
+import { GenerateOptions, GenerateResult, LLMProvider } from './types';
+
+// Pull the problem statement out of a visualize or repair prompt
+function extractProblemText(prompt: string): string {
+  const match = prompt.match(/--- START PROBLEM ---\n([\s\S]*?)\n--- END PROBLEM ---/);
+  return (match ? match[1] : prompt).toLowerCase();
+}
+
+// Answer to the math OCR prompt: mark up squares and cubes the way a real model would, e.g. x2 -> $x^2$
+function convertMathText(prompt: string): string {
+  const match = prompt.match(/--- START OCR TEXT ---\n([\s\S]*?)\n--- END OCR TEXT ---/);
+  return (match ? match[1] : '').replace(/\b([a-z])([23])\b/g, '$$$1^$2$$');
+}
+
+// Answer to the segmentation prompt: one exercise per paragraph, as line ranges
+function segmentWorksheet(prompt: string): string {
+  const match = prompt.match(/--- START WORKSHEET ---\n([\s\S]*?)\n--- END WORKSHEET ---/);
+  const lines = (match ? match[1] : '').split('\n').map((line) => line.replace(/^\d+: /, ''));
+  const ranges: { label: string; startLine: number; endLine: number }[] = [];
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    const last = ranges[ranges.length - 1];
+    if (last && last.endLine === i) {
+      last.endLine = i + 1;
+    } else {
+      ranges.push({ label: String(ranges.length + 1), startLine: i + 1, endLine: i + 1 });
+    }
+  });
+  return JSON.stringify(ranges.length >= 2 ? ranges : []);
+}
+
+function pickFixture(problemText: string): MockFixture {
+  const forced = process.env.MOCK_LLM_FIXTURE;
+  if (forced) {
+    const fixture = MOCK_FIXTURES.find((f) => f.name === forced);
+    if (fixture) return fixture;
+  }
+  return MOCK_FIXTURES.find((f) => f.keywords.some((k) => problemText.includes(k)))
+    ?? MOCK_FIXTURES[MOCK_FIXTURES.length - 1];
+}
+
+// Size of the pieces handed to onChunk, roughly what a streaming API delivers
+const MOCK_CHUNK_SIZE = 64;
+
+// Rough, deterministic token estimate so usage numbers are stable in tests
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Deterministic provider for offline development and tests. Selected with LLM_PROVIDER=mock.
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    model: 'mock-fixtures',
+    async generateCode(prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> {
+      const problemText = extractProblemText(prompt);
+      const isRepair = prompt.includes('--- START ERROR ---');
+      const isScene = prompt.includes('JSON scene');
+
+      let text: string;
+      if (prompt.includes('--- START OCR TEXT ---')) {
+        text = convertMathText(prompt);
+      } else if (prompt.includes('--- START WORKSHEET ---')) {
+        text = segmentWorksheet(prompt);
+      } else if (problemText.includes('[mock:fail-once]') && !isRepair) {
+        text = isScene ? MOCK_BROKEN_SCENE_RESPONSE : MOCK_BROKEN_RESPONSE;
+      } else {
+        const fixture = pickFixture(problemText);
+        text = isScene ? fixture.scene ?? fixture.response : fixture.response;
+      }
+
+      if (options.onChunk) {
+        for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+          options.onChunk(text.slice(i, i + MOCK_CHUNK_SIZE));
+        }
+      }
+
+      const promptTokens = estimateTokens(prompt);
+      const completionTokens = estimateTokens(text);
+      return {
+        text,
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      };
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import { LLMConfigError, LLMError } from './errors';
+import { DEFAULT_GENERATE_OPTIONS, GenerateOptions, GenerateResult, LLMProvider, TokenUsage } from './types';
+
+function toUsage(usage: any): TokenUsage {
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+    totalTokens: usage.total_tokens ?? 0,
+  };
+}
+
+// Read a `stream: true` completion: server-sent `data:` lines with content deltas,
+// terminated by `data: [DONE]`. Usage arrives on the last chunk when the server supports it.
+async function readCompletionStream(body: ReadableStream<Uint8Array>, onChunk: (text: string) => void): Promise<GenerateResult> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  let usage: TokenUsage | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) return;
+    const payload = line.slice('data:'.length).trim();
+    if (!payload || payload === '[DONE]') return;
+    const data = JSON.parse(payload);
+    const delta = data?.choices?.[0]?.delta?.content;
+    if (typeof delta === 'string' && delta) {
+      text += delta;
+      onChunk(delta);
+    }
+    if (data?.usage) usage = toUsage(data.usage);
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+  } catch (streamError: any) {
+    throw new LLMError(`Error reading model server stream: ${streamError.message}`, 'LLM_REQUEST_FAILED', streamError.message);
+  }
+
+  if (!text) {
+    throw new LLMError('AI model returned an empty response', 'LLM_EMPTY_RESPONSE');
+  }
+  return { text, usage };
+}
+
+// Talks to any server exposing the OpenAI chat completions API
+// (vLLM, llama.cpp server, Ollama, LM Studio, ...).
+export function createOpenAICompatibleProvider(
+  baseUrl: string | undefined = process.env.OPENAI_COMPAT_BASE_URL,
+  modelName: string | undefined = process.env.OPENAI_COMPAT_MODEL,
+  apiKey: string | undefined = process.env.OPENAI_COMPAT_API_KEY
+): LLMProvider {
+  if (!baseUrl || !modelName) {
+    throw new LLMConfigError(
+      'AI service configuration error - OpenAI-compatible endpoint not configured',
+      'Please set OPENAI_COMPAT_BASE_URL and OPENAI_COMPAT_MODEL'
+    );
+  }
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai-compatible',
+    model: modelName,
+    async generateCode(prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: modelName,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: options.temperature ?? DEFAULT_GENERATE_OPTIONS.temperature,
+            max_tokens: options.maxOutputTokens ?? DEFAULT_GENERATE_OPTIONS.maxOutputTokens,
+            ...(options.onChunk ? { stream: true, stream_options: { include_usage: true } } : {}),
+          }),
+        });
+      } catch (fetchError: any) {
+        throw new LLMError(`Error calling ${endpoint}: ${fetchError.message}`, 'LLM_REQUEST_FAILED', fetchError.message);
+      }
+
+      if (response.ok && options.onChunk && response.body) {
+        return readCompletionStream(response.body, options.onChunk);
+      }
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new LLMError(
+          `Model server request failed with status ${response.status}`,
+          'LLM_REQUEST_FAILED',
+          data?.error?.message || data?.error || 'Unknown model server error'
+        );
+      }
+
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new LLMError('AI model returned an empty response', 'LLM_EMPTY_RESPONSE', data);
+      }
+
+      return {
+        text,
+        usage: data.usage ? toUsage(data.usage) : null,
+      };
+    },
+  };
+}
@@ -0,0 +1,30 @@
+// Contract shared by every code-generating model backend.
+
+export interface GenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  onChunk?: (text: string) => void; // When set, the response is streamed and each piece passed here as it arrives
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  usage: TokenUsage | null; // null when the backend does not report usage
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  generateCode(prompt: string, options?: GenerateOptions): Promise<GenerateResult>;
+}
+
+// Generation settings used by the visualize pipeline unless overridden
+export const DEFAULT_GENERATE_OPTIONS: Required<Omit<GenerateOptions, 'onChunk'>> = {
+  temperature: 0.3, // Slightly lower for more predictable scripts that leave their figures open for the harness to save
+  maxOutputTokens: 2048,
+};
@@ -0,0 +1,103 @@
+import { AUTO_LANGUAGE, Script } from './languages';
+import { convertMathText } from './mathText';
+import { isPdf, rasterizePdf } from './rasterizePdf';
+import { recognizeText, recognizeTextAuto } from './recognize';
+import { ProblemSegment, segmentProblems, SegmentationMethod } from './segment';
+import { OCRInput, OCRLine } from './types';
+
+export function getOcrMaxFiles(): number {
+  return Number(process.env.OCR_MAX_FILES) || 10;
+}
+
+// One page of an upload: an image, or a page of a PDF
+export interface OCRPage {
+  fileIndex: number;      // Position of the file in the upload
+  fileName: string;
+  pageNumber: number;     // 1-based within the file; always 1 for images
+  text: string;           // May contain LaTeX when `math` is set
+  rawText?: string;       // The OCR engine's own text, which `lines` belong to; only when `math` is set
+  provider: string | null;
+  language: string;       // Language of the OCR pass that produced the text
+  script: Script | null;  // Detected script, in auto mode
+  math: boolean;          // Formulas were rewritten as LaTeX
+  lines?: OCRLine[];      // Word boxes in the page image, when layout was requested
+  problems: ProblemSegment[];             // The page's exercises; empty when it holds a single problem
+  segmentation: SegmentationMethod | null;
+  error?: string;         // This page failed; the other pages are still returned
+}
+
+export interface RecognizeDocumentsOptions {
+  language: string;       // A language code, or 'auto'
+  layout: boolean;
+}
+
+async function recognizePage(input: OCRInput, options: RecognizeDocumentsOptions) {
+  const { text, provider, ...detected } = options.language === AUTO_LANGUAGE
+    ? await recognizeTextAuto(input, { layout: options.layout })
+    : { ...(await recognizeText(input, options)), language: options.language, script: null };
+
+  if (!text.trim()) {
+    return { text: '', provider, math: false, problems: [], segmentation: null, ...detected };
+  }
+  const { text: mathText, converted } = await convertMathText(text);
+  const { problems, method } = await segmentProblems(mathText);
+  return {
+    text: mathText,
+    ...(converted ? { rawText: text } : {}),
+    provider,
+    math: converted,
+    problems,
+    segmentation: method,
+    ...detected,
+  };
+}
+
+// OCR every page of every uploaded file, in upload order, rasterizing PDFs first. Pages
+// are read one at a time to stay within the OCR providers' rate limits. A failed file or
+// page is reported on its page; the last error is thrown only when nothing succeeded.
+export async function recognizeDocuments(files: OCRInput[], options: RecognizeDocumentsOptions): Promise<OCRPage[]> {
+  const pages: OCRPage[] = [];
+  let lastError: unknown = null;
+
+  const failed = (fileIndex: number, fileName: string, pageNumber: number, error: any): OCRPage => {
+    lastError = error;
+    console.warn(`OCR failed for ${fileName} page ${pageNumber}:`, error?.message ?? error);
+    return {
+      fileIndex,
+      fileName,
+      pageNumber,
+      text: '',
+      provider: null,
+      language: options.language,
+      script: null,
+      math: false,
+      problems: [],
+      segmentation: null,
+      error: error?.message || 'OCR processing failed.',
+    };
+  };
+
+  for (const [fileIndex, file] of files.entries()) {
+    let inputs: OCRInput[];
+    try {
+      inputs = isPdf(file) ? await rasterizePdf(file) : [file];
+    } catch (error) {
+      pages.push(failed(fileIndex, file.fileName, 1, error));
+      continue;
+    }
+
+    for (const [index, input] of inputs.entries()) {
+      try {
+        const page = await recognizePage(input, options);
+        pages.push({ fileIndex, fileName: file.fileName, pageNumber: index + 1, ...page });
+      } catch (error) {
+        pages.push(failed(fileIndex, file.fileName, index + 1, error));
+      }
+    }
+  }
+
+  if (pages.length > 0 && pages.every((page) => page.error)) {
+    throw lastError;
+  }
+  return pages;
+}
@@ -0,0 +1,36 @@
+// Typed errors raised by OCR providers.
+
+export type OCRErrorCode =
+  | 'OCR_CONFIG'
+  | 'OCR_REQUEST_FAILED'
+  | 'OCR_PROCESSING_FAILED';
+
+export class OCRError extends Error {
+  readonly code: OCRErrorCode;
+  readonly provider: string;
+  readonly status: number;
+  readonly details: unknown;
+
+  constructor(
+    message: string,
+    options: { code?: OCRErrorCode; provider: string; status?: number; details?: unknown }
+  ) {
+    super(message);
+    this.name = 'OCRError';
+    this.code = options.code ?? 'OCR_PROCESSING_FAILED';
+    this.provider = options.provider;
+    this.status = options.status ?? 500;
+    this.details = options.details;
+  }
+}
+
+// Raised when every provider in the fallback chain failed.
+export class OCRChainError extends Error {
+  readonly errors: OCRError[];
+
+  constructor(errors: OCRError[]) {
+    super(errors.length > 0 ? errors[errors.length - 1].message : 'No OCR providers configured.');
+    this.name = 'OCRChainError';
+    this.errors = errors;
+  }
+}
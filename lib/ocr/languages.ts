@@ -0,0 +1,69 @@
+// Languages offered in the UI and the script detection behind the "auto" option.
+// Shared by the client and the server, so it must not import Node modules.
+
+export type Script = 'latin' | 'hebrew' | 'arabic' | 'cyrillic';
+
+export interface OCRLanguage {
+  code: string;   // OCR.space style three-letter code, also sent to /api/visualize
+  name: string;   // English name, used in the UI and in the prompt
+  script: Script;
+}
+
+export const AUTO_LANGUAGE = 'auto';
+
+export const OCR_LANGUAGES: OCRLanguage[] = [
+  { code: 'eng', name: 'English', script: 'latin' },
+  { code: 'heb', name: 'Hebrew', script: 'hebrew' },
+  { code: 'ara', name: 'Arabic', script: 'arabic' },
+  { code: 'rus', name: 'Russian', script: 'cyrillic' },
+  { code: 'fre', name: 'French', script: 'latin' },
+  { code: 'ger', name: 'German', script: 'latin' },
+  { code: 'spa', name: 'Spanish', script: 'latin' },
+  { code: 'por', name: 'Portuguese', script: 'latin' },
+  { code: 'ita', name: 'Italian', script: 'latin' },
+];
+
+// The language used to read a script once it has been detected
+export const SCRIPT_LANGUAGES: Record<Script, string> = {
+  latin: 'eng',
+  hebrew: 'heb',
+  arabic: 'ara',
+  cyrillic: 'rus',
+};
+
+const SCRIPT_PATTERNS: Record<Script, RegExp> = {
+  latin: /[A-Za-z\u00C0-\u024F]/g,
+  hebrew: /[\u0590-\u05FF\uFB1D-\uFB4F]/g,
+  arabic: /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/g,
+  cyrillic: /[\u0400-\u04FF]/g,
+};
+
+// Math problems in any language name their points and variables with Latin letters,
+// so a non-Latin script wins as soon as it makes up a fair share of the letters.
+const NON_LATIN_SHARE = 0.3;
+
+export function findLanguage(code: string): OCRLanguage | undefined {
+  return OCR_LANGUAGES.find((language) => language.code === code);
+}
+
+// The dominant script of a text, or null when it has no letters at all.
+export function detectScript(text: string): Script | null {
+  const counts = Object.fromEntries(
+    (Object.keys(SCRIPT_PATTERNS) as Script[]).map((script) => [script, text.match(SCRIPT_PATTERNS[script])?.length ?? 0])
+  ) as Record<Script, number>;
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  if (total === 0) return null;
+
+  const [nonLatin, nonLatinCount] = (['hebrew', 'arabic', 'cyrillic'] as Script[])
+    .map((script) => [script, counts[script]] as const)
+    .reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  return nonLatinCount / total >= NON_LATIN_SHARE ? nonLatin : 'latin';
+}
+
+// The language to write figure labels in. Auto detection can only tell scripts apart,
+// so a Latin-script problem is left to the model to recognise (English or French?).
+export function resolvePromptLanguage(code: string | null | undefined, problemText: string): OCRLanguage | null {
+  if (code && code !== AUTO_LANGUAGE) return findLanguage(code) ?? null;
+  const script = detectScript(problemText);
+  return script && script !== 'latin' ? findLanguage(SCRIPT_LANGUAGES[script]) ?? null : null;
+}
@@ -0,0 +1,10 @@
+import { OCRLine, OCRWord } from './types';
+
+// Assemble a line from its words; providers without per-word confidence get null.
+export function buildLine(words: OCRWord[], text: string = words.map((word) => word.text).join(' ')): OCRLine {
+  const scored = words.filter((word) => word.confidence !== null);
+  const confidence = scored.length
+    ? Math.round(scored.reduce((sum, word) => sum + (word.confidence as number), 0) / scored.length)
+    : null;
+  return { text, words, confidence };
+}
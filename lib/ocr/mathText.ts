@@ -0,0 +1,73 @@
+import { getLLMProvider } from '../llm/getProvider';
+import { LLMProvider } from '../llm/types';
+
+// Plain OCR flattens math: "x² + y² = 25" comes back as "x2 + y2 = 25", roots and
+// fractions lose their structure and Greek letters turn into Latin look-alikes.
+// This pass asks the LLM provider to restore the notation as LaTeX, leaving the prose alone.
+
+export const MATH_OCR_PROMPT_TEMPLATE = `
+You are proofreading the output of an OCR engine that read a math exercise from a photo.
+The OCR engine does not understand math notation, so it flattens it: exponents appear as plain digits (x2 for x²),
+fractions, roots and subscripts lose their structure, and Greek letters may be read as similar Latin letters.
+
+Rewrite the text with every mathematical expression written in LaTeX:
+- Inline math between single dollar signs, e.g. $x^2 + y^2 = 25$, $\\frac{1}{2}$, $\\sqrt{3}$, $\\alpha = 30^\\circ$.
+- Equations that stand on their own line between double dollar signs.
+- Keep all other text exactly as it is, in its original language and word order. Do not translate, summarize,
+  solve the exercise, or add anything; fix only math notation and obvious OCR errors inside formulas.
+- Keep the line breaks and the exercise numbering, e.g. (a), (b).
+
+Output ONLY the rewritten text, without explanations or markdown code fences.
+
+Here is the OCR text:
+--- START OCR TEXT ---
+{OCR_TEXT}
+--- END OCR TEXT ---
+
+Rewritten text:
+`;
+
+const MATH_GENERATE_OPTIONS = { temperature: 0, maxOutputTokens: 2048 };
+
+// A rewrite this far from the original length was not a notation fix
+const MIN_LENGTH_RATIO = 0.5;
+const MAX_LENGTH_RATIO = 3;
+
+export interface MathTextResult {
+  text: string;
+  converted: boolean; // False when the pass is disabled or its answer was rejected
+}
+
+// OCR_MATH selects the pass: 'llm' (default) or 'none'.
+export function isMathPassEnabled(setting: string = process.env.OCR_MATH || 'llm'): boolean {
+  return setting.trim().toLowerCase() !== 'none';
+}
+
+function stripFences(text: string): string {
+  return text.replace(/^\s*```[a-z]*\s*\n?/i, '').replace(/\n?```\s*$/, '').trim();
+}
+
+// Rewrite OCR output with LaTeX math. Never throws: any failure keeps the plain OCR text,
+// which is still usable, and is logged instead.
+export async function convertMathText(ocrText: string, provider?: LLMProvider): Promise<MathTextResult> {
+  if (!ocrText.trim() || !isMathPassEnabled()) {
+    return { text: ocrText, converted: false };
+  }
+
+  try {
+    const llm = provider ?? getLLMProvider();
+    const prompt = MATH_OCR_PROMPT_TEMPLATE.replace('{OCR_TEXT}', () => ocrText);
+    const result = await llm.generateCode(prompt, MATH_GENERATE_OPTIONS);
+    const text = stripFences(result.text);
+
+    const ratio = text.length / ocrText.trim().length;
+    if (!text || ratio < MIN_LENGTH_RATIO || ratio > MAX_LENGTH_RATIO) {
+      console.warn(`Math OCR pass rejected: length ratio ${ratio.toFixed(2)}, keeping the plain OCR text`);
+      return { text: ocrText, converted: false };
+    }
+    return { text, converted: true };
+  } catch (error) {
+    console.warn('Math OCR pass failed, keeping the plain OCR text:', error);
+    return { text: ocrText, converted: false };
+  }
+}
@@ -0,0 +1,88 @@
+import { OCRError } from './errors';
+import { AUTO_LANGUAGE } from './languages';
+import { buildLine } from './layout';
+import { OCRInput, OCRLine, OCROptions, OCRProvider, OCRResult } from './types';
+
+const OCR_SPACE_ENDPOINT = 'https://api.ocr.space/parse/image';
+
+// TextOverlay has pixel boxes per word but no confidence scores
+function readOverlayLines(parsedResult: any): OCRLine[] {
+  const lines: any[] = parsedResult?.TextOverlay?.Lines ?? [];
+  return lines.map((line) =>
+    buildLine(
+      (line.Words ?? []).map((word: any) => ({
+        text: String(word.WordText ?? ''),
+        left: Number(word.Left) || 0,
+        top: Number(word.Top) || 0,
+        width: Number(word.Width) || 0,
+        height: Number(word.Height) || 0,
+        confidence: null,
+      })),
+      typeof line.LineText === 'string' ? line.LineText : undefined
+    )
+  );
+}
+
+export function createOcrSpaceProvider(apiKey: string | undefined = process.env.OCR_SPACE_API_KEY): OCRProvider {
+  return {
+    name: 'ocrspace',
+    async recognize(input: OCRInput, options: OCROptions): Promise<OCRResult> {
+      if (!apiKey) {
+        console.error('OCR_SPACE_API_KEY not set in environment variables');
+        throw new OCRError('OCR service configuration error.', { code: 'OCR_CONFIG', provider: 'ocrspace' });
+      }
+
+      const ocrFormData = new FormData();
+      ocrFormData.append('file', new Blob([input.data], { type: input.mimeType }), input.fileName);
+      ocrFormData.append('apikey', apiKey);
+      ocrFormData.append('language', options.language); // Add language parameter
+      if (options.language === AUTO_LANGUAGE) {
+        ocrFormData.append('OCREngine', '2'); // Only engine 2 can detect the language itself
+      }
+      ocrFormData.append('isOverlayRequired', options.layout ? 'true' : 'false');
+      // ocrFormData.append('OCREngine', '2'); // You can experiment with OCR Engine 1 or 2
+
+      let ocrResponse: Response;
+      try {
+        ocrResponse = await fetch(OCR_SPACE_ENDPOINT, {
+          method: 'POST',
+          body: ocrFormData,
+        });
+      } catch (fetchError: any) {
+        throw new OCRError('OCR API request failed.', { code: 'OCR_REQUEST_FAILED', provider: 'ocrspace', details: fetchError.message });
+      }
+
+      if (!ocrResponse.ok) {
+        const errorData = await ocrResponse.json().catch(() => ({})); // Try to parse error, default to empty obj
+        console.error('OCR.space API Error:', errorData);
+        throw new OCRError(`OCR API request failed with status ${ocrResponse.status}.`, {
+          code: 'OCR_REQUEST_FAILED',
+          provider: 'ocrspace',
+          status: ocrResponse.status,
+          details: errorData?.ErrorMessage || errorData?.ErrorDetails || 'Unknown OCR API error',
+        });
+      }
+
+      // OCR.space reports quota errors as plain text with a 200 status
+      const ocrData = await ocrResponse.json().catch(() => null);
+      if (!ocrData || typeof ocrData !== 'object') {
+        throw new OCRError('OCR API returned an invalid response.', { code: 'OCR_REQUEST_FAILED', provider: 'ocrspace' });
+      }
+
+      if (ocrData.IsErroredOnProcessing) {
+        console.error('OCR.space processing error:', ocrData.ErrorMessage);
+        throw new OCRError('OCR processing failed.', {
+          provider: 'ocrspace',
+          details: ocrData.ErrorMessage?.join(', ') || 'See OCR API logs for details.',
+        });
+      }
+
+      if (!ocrData.ParsedResults || ocrData.ParsedResults.length === 0) {
+        return { text: '', provider: 'ocrspace', ...(options.layout ? { lines: [] } : {}) };
+      }
+
+      const [parsed] = ocrData.ParsedResults;
+      return { text: parsed.ParsedText, provider: 'ocrspace', ...(options.layout ? { lines: readOverlayLines(parsed) } : {}) };
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { spawn } from 'child_process';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { OCRError } from './errors';
+import { OCRInput } from './types';
+
+const PDFTOPPM_TIMEOUT_MS = 60_000;
+const PDF_DPI = 200;          // Small print stays legible; an A4 page is about 1650x2340
+const JPEG_QUALITY = 85;      // Keeps a page well under OCR.space's 1 MB upload limit
+
+export function getPdfMaxPages(): number {
+  return Number(process.env.OCR_PDF_MAX_PAGES) || 10;
+}
+
+export function isPdf(input: Pick<OCRInput, 'fileName' | 'mimeType'>): boolean {
+  return input.mimeType === 'application/pdf' || input.fileName.toLowerCase().endsWith('.pdf');
+}
+
+function runPdftoppm(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const pdftoppm = spawn(process.env.PDFTOPPM_BIN || 'pdftoppm', args);
+
+    let stderr = '';
+    const timer = setTimeout(() => pdftoppm.kill('SIGKILL'), PDFTOPPM_TIMEOUT_MS);
+
+    pdftoppm.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    pdftoppm.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      if (exitCode === 0) {
+        resolve();
+      } else {
+        reject(new OCRError('The PDF could not be read.', {
+          provider: 'pdf',
+          status: signal ? 500 : 422,
+          details: signal ? `pdftoppm was killed after ${PDFTOPPM_TIMEOUT_MS}ms` : stderr.trim(),
+        }));
+      }
+    });
+
+    pdftoppm.on('error', (err) => {
+      clearTimeout(timer);
+      reject(new OCRError('PDF upload is not available.', {
+        code: 'OCR_CONFIG',
+        provider: 'pdf',
+        details: `Failed to start pdftoppm: ${err.message}`,
+      }));
+    });
+  });
+}
+
+// Render the first pages of a PDF to JPEG images with poppler's pdftoppm, which must be
+// installed on the server (poppler-utils). Pages come back in order, one OCR input each.
+export async function rasterizePdf(input: OCRInput, maxPages: number = getPdfMaxPages()): Promise<OCRInput[]> {
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'pdf-'));
+  try {
+    const pdfPath = path.join(workDir, 'input.pdf');
+    await writeFile(pdfPath, input.data);
+    await runPdftoppm([
+      '-r', String(PDF_DPI),
+      '-jpeg', '-jpegopt', `quality=${JPEG_QUALITY}`,
+      '-f', '1', '-l', String(maxPages),
+      pdfPath, path.join(workDir, 'page'),
+    ]);
+
+    // pdftoppm zero-pads page numbers to the page count, so sort numerically
+    const pageFiles = (await readdir(workDir))
+      .filter((name) => /^page-\d+\.jpg$/.test(name))
+      .sort((a, b) => Number(a.match(/\d+/)![0]) - Number(b.match(/\d+/)![0]));
+
+    const baseName = input.fileName.replace(/\.pdf$/i, '');
+    return Promise.all(
+      pageFiles.map(async (name, index) => ({
+        data: await readFile(path.join(workDir, name)),
+        fileName: `${baseName}-page-${index + 1}.jpg`,
+        mimeType: 'image/jpeg',
+      }))
+    );
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
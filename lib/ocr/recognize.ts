@@ -0,0 +1,73 @@
+import { OCRChainError, OCRError } from './errors';
+import { createOcrSpaceProvider } from './ocrSpaceProvider';
+import { AUTO_LANGUAGE, detectScript, Script, SCRIPT_LANGUAGES } from './languages';
+import { createTesseractProvider } from './tesseractProvider';
+import { OCRInput, OCROptions, OCRProvider, OCRResult } from './types';
+
+const PROVIDER_FACTORIES: Record<string, () => OCRProvider> = {
+  ocrspace: createOcrSpaceProvider,
+  tesseract: createTesseractProvider,
+};
+
+// Providers tried in order, from OCR_PROVIDERS (e.g. "ocrspace,tesseract").
+export function getOCRProviders(chain: string = process.env.OCR_PROVIDERS || 'ocrspace,tesseract'): OCRProvider[] {
+  return chain
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => {
+      if (!name) return false;
+      if (!PROVIDER_FACTORIES[name]) {
+        console.warn(`Unknown OCR provider '${name}' in OCR_PROVIDERS, skipping`);
+        return false;
+      }
+      return true;
+    })
+    .map((name) => PROVIDER_FACTORIES[name]());
+}
+
+// Run OCR through the fallback chain: an outage, quota or configuration error in one
+// provider moves on to the next. Throws OCRChainError when all of them fail.
+export async function recognizeText(
+  input: OCRInput,
+  options: OCROptions,
+  providers: OCRProvider[] = getOCRProviders()
+): Promise<OCRResult> {
+  const errors: OCRError[] = [];
+  for (const provider of providers) {
+    try {
+      return await provider.recognize(input, options);
+    } catch (error: any) {
+      const ocrError = error instanceof OCRError
+        ? error
+        : new OCRError('OCR processing failed.', { provider: provider.name, details: error?.message });
+      console.warn(`OCR provider '${provider.name}' failed, trying next:`, ocrError.message, ocrError.details ?? '');
+      errors.push(ocrError);
+    }
+  }
+  throw new OCRChainError(errors);
+}
+
+// The "auto" language: read the image once with every script enabled, detect the
+// script of the result, and read it again in that script's language unless it is
+// Latin, where the multi-script pass already covers the European languages.
+// `language` is the language of the pass whose text is returned.
+export async function recognizeTextAuto(
+  input: OCRInput,
+  options: Omit<OCROptions, 'language'> = {},
+  providers: OCRProvider[] = getOCRProviders()
+): Promise<OCRResult & { language: string; script: Script | null }> {
+  const first = await recognizeText(input, { ...options, language: AUTO_LANGUAGE }, providers);
+  const script = detectScript(first.text);
+  if (!script || script === 'latin') {
+    return { ...first, language: AUTO_LANGUAGE, script };
+  }
+
+  const language = SCRIPT_LANGUAGES[script];
+  console.log(`OCR detected ${script} script, reading again as '${language}'`);
+  try {
+    return { ...(await recognizeText(input, { ...options, language }, providers)), language, script };
+  } catch (error) {
+    console.warn('Second OCR pass failed, keeping the multi-script result:', error);
+    return { ...first, language: AUTO_LANGUAGE, script };
+  }
+}
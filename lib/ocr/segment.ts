@@ -0,0 +1,170 @@
+import { getLLMProvider } from '../llm/getProvider';
+import { LLMProvider } from '../llm/types';
+
+// Split the text of a worksheet page into its exercises, so each can be visualized on
+// its own. Numbering rules cover most pages; the LLM provider is asked only when they
+// find nothing on a page long enough to hold several exercises.
+
+export interface ProblemSegment {
+  label: string; // The exercise's own numbering, e.g. "3", "Question 3", "(a)"
+  text: string;
+}
+
+export type SegmentationMethod = 'rules' | 'llm';
+
+export interface SegmentationResult {
+  problems: ProblemSegment[];           // Empty when the page is a single problem
+  method: SegmentationMethod | null;
+}
+
+// "Question 3", "שאלה 3", "Задача 3", ... at the start of a line
+const KEYWORD_MARKER =
+  /^\s*((?:question|exercise|problem|task|exercice|aufgabe|ejercicio|שאלה|תרגיל|задача|задание|упражнение|سؤال|تمرين|مسألة)\s*(?:no\.?|nr\.?|№|מס['.]?)?\s*(\d{1,3}))\b/iu;
+// "3." or "3)" followed by text
+const NUMBER_MARKER = /^\s*((\d{1,3})\s*[.)])\s+\S/;
+// "(a)", "a)", "(א)", "א." and "א)" for the parts of one exercise
+const LETTER_MARKER = /^\s*(\(([a-j])\)|([a-j])\)|\(([א-י])\)|([א-י])[.)])\s+\S/i;
+
+const HEBREW_LETTERS = 'אבגדהוזחטי';
+
+interface Marker {
+  line: number;
+  label: string;
+  index: number; // Position in its numbering sequence
+}
+
+function findMarkers(lines: string[], match: (line: string) => { label: string; index: number } | null): Marker[] {
+  const markers: Marker[] = [];
+  lines.forEach((line, lineIndex) => {
+    const found = match(line);
+    // Only consecutive numbering counts; a stray "2." inside an exercise is content
+    if (found && (markers.length === 0 || found.index === markers[markers.length - 1].index + 1)) {
+      markers.push({ line: lineIndex, ...found });
+    }
+  });
+  return markers.length >= 2 ? markers : [];
+}
+
+function letterIndex(letter: string): number {
+  const hebrew = HEBREW_LETTERS.indexOf(letter);
+  return hebrew >= 0 ? hebrew : letter.toLowerCase().charCodeAt(0) - 'a'.charCodeAt(0);
+}
+
+function slice(lines: string[], from: number, to: number): string {
+  return lines.slice(from, to).join('\n').trim();
+}
+
+// Rule-based segmentation. Exercises keep their lettered parts together, since the
+// visualizer draws one figure per part; a page of parts only is split per part, with
+// the shared statement before the first part repeated in each.
+export function segmentByNumbering(text: string): ProblemSegment[] {
+  const lines = text.split('\n');
+
+  const keywordMarkers = findMarkers(lines, (line) => {
+    const match = line.match(KEYWORD_MARKER);
+    return match ? { label: match[1].trim(), index: Number(match[2]) } : null;
+  });
+  const numberMarkers = findMarkers(lines, (line) => {
+    const match = line.match(NUMBER_MARKER);
+    return match ? { label: match[2], index: Number(match[2]) } : null;
+  });
+  const topLevel = keywordMarkers.length > 0 ? keywordMarkers : numberMarkers;
+  if (topLevel.length > 0) {
+    return topLevel.map((marker, i) => ({
+      label: marker.label,
+      text: slice(lines, marker.line, topLevel[i + 1]?.line ?? lines.length),
+    }));
+  }
+
+  const letterMarkers = findMarkers(lines, (line) => {
+    const match = line.match(LETTER_MARKER);
+    if (!match) return null;
+    const letter = match[2] ?? match[3] ?? match[4] ?? match[5];
+    return { label: match[1], index: letterIndex(letter) };
+  });
+  if (letterMarkers.length > 0 && letterMarkers[0].index === 0) {
+    const stem = slice(lines, 0, letterMarkers[0].line);
+    return letterMarkers.map((marker, i) => {
+      const part = slice(lines, marker.line, letterMarkers[i + 1]?.line ?? lines.length);
+      return { label: marker.label, text: stem ? `${stem}\n${part}` : part };
+    });
+  }
+  return [];
+}
+
+export const SEGMENT_PROMPT_TEMPLATE = `
+Below is the text of a worksheet page, read by OCR, with each line prefixed by its line number.
+Find where each separate exercise starts and ends. Lettered parts such as (a), (b) belong to the same exercise.
+Ignore page headers, titles and general instructions that are not part of an exercise.
+
+Output ONLY a JSON array, without explanations or markdown formatting, with one entry per exercise in page order:
+[{ "label": short name of the exercise as written on the page, e.g. "3", "startLine": number, "endLine": number }]
+If the page contains a single exercise, output exactly: []
+
+--- START WORKSHEET ---
+{NUMBERED_TEXT}
+--- END WORKSHEET ---
+
+JSON:
+`;
+
+// Pages shorter than this are treated as one problem without asking the model
+const MIN_LLM_TEXT_LENGTH = 300;
+const MIN_LLM_LINES = 4;
+
+// The model returns line ranges rather than text, so exercises are never reworded.
+async function segmentWithLLM(text: string, provider?: LLMProvider): Promise<ProblemSegment[]> {
+  const lines = text.split('\n');
+  const numbered = lines.map((line, i) => `${i + 1}: ${line}`).join('\n');
+  const llm = provider ?? getLLMProvider();
+  const result = await llm.generateCode(SEGMENT_PROMPT_TEMPLATE.replace('{NUMBERED_TEXT}', () => numbered), {
+    temperature: 0,
+    maxOutputTokens: 1024,
+  });
+
+  const json = result.text.replace(/^\s*```[a-z]*\s*/i, '').replace(/```\s*$/, '').trim();
+  const ranges: unknown = JSON.parse(json);
+  if (!Array.isArray(ranges)) throw new Error('Segmentation answer is not an array');
+
+  let previousEnd = 0;
+  const problems: ProblemSegment[] = [];
+  for (const range of ranges) {
+    const start = Number(range?.startLine);
+    const end = Number(range?.endLine);
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start <= previousEnd || end < start || end > lines.length) {
+      throw new Error(`Invalid exercise range ${JSON.stringify(range)}`);
+    }
+    previousEnd = end;
+    const problemText = slice(lines, start - 1, end);
+    if (problemText) {
+      problems.push({ label: String(range.label ?? problems.length + 1).slice(0, 40), text: problemText });
+    }
+  }
+  return problems.length >= 2 ? problems : [];
+}
+
+// OCR_SEGMENT selects the strategy: 'llm' (default, rules then the model), 'rules' or 'none'.
+export async function segmentProblems(
+  text: string,
+  setting: string = process.env.OCR_SEGMENT || 'llm',
+  provider?: LLMProvider
+): Promise<SegmentationResult> {
+  const strategy = setting.trim().toLowerCase();
+  if (strategy === 'none' || !text.trim()) return { problems: [], method: null };
+
+  const byRules = segmentByNumbering(text);
+  if (byRules.length > 0) return { problems: byRules, method: 'rules' };
+
+  const lineCount = text.split('\n').filter((line) => line.trim()).length;
+  if (strategy !== 'llm' || text.length < MIN_LLM_TEXT_LENGTH || lineCount < MIN_LLM_LINES) {
+    return { problems: [], method: null };
+  }
+
+  try {
+    const problems = await segmentWithLLM(text, provider);
+    return { problems, method: problems.length > 0 ? 'llm' : null };
+  } catch (error) {
+    console.warn('LLM segmentation failed, treating the page as one problem:', error);
+    return { problems: [], method: null };
+  }
+}
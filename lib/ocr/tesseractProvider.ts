@@ -0,0 +1,127 @@
+import { spawn } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { OCRError } from './errors';
+import { buildLine } from './layout';
+import { OCRInput, OCRLine, OCROptions, OCRProvider, OCRResult } from './types';
+
+// OCR.space language codes that differ from Tesseract's traineddata names
+const TESSERACT_LANGUAGE_CODES: Record<string, string> = {
+  chs: 'chi_sim',
+  cht: 'chi_tra',
+  dut: 'nld',
+  fre: 'fra',
+  ger: 'deu',
+  gre: 'ell',
+  auto: 'eng+heb+ara+rus', // One model per detectable script; slower, but only used to find the script
+};
+
+const TESSERACT_TIMEOUT_MS = 60_000;
+
+function runTesseract(imagePath: string, language: string, tsv: boolean): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const args = [imagePath, 'stdout', '-l', language, ...(tsv ? ['tsv'] : [])];
+    const tesseract = spawn(process.env.TESSERACT_BIN || 'tesseract', args);
+
+    let stdout = '';
+    let stderr = '';
+    const timer = setTimeout(() => tesseract.kill('SIGKILL'), TESSERACT_TIMEOUT_MS);
+
+    tesseract.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+    tesseract.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    tesseract.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      if (exitCode === 0) {
+        resolve(stdout);
+      } else {
+        reject(new OCRError('Local OCR processing failed.', {
+          provider: 'tesseract',
+          details: signal ? `Tesseract was killed after ${TESSERACT_TIMEOUT_MS}ms` : stderr.trim(),
+        }));
+      }
+    });
+
+    tesseract.on('error', (err) => {
+      clearTimeout(timer);
+      reject(new OCRError('Local OCR is not available.', {
+        code: 'OCR_CONFIG',
+        provider: 'tesseract',
+        details: `Failed to start tesseract: ${err.message}`,
+      }));
+    });
+  });
+}
+
+// Rebuild the text and its lines from Tesseract's TSV output: one row per page, block,
+// paragraph, line and word (level 5), with a confidence of -1 on everything but words.
+function parseTsv(tsv: string): { text: string; lines: OCRLine[] } {
+  const lines: OCRLine[] = [];
+  const paragraphs: string[] = [];
+  let lineKey = '';
+  let paragraphKey = '';
+  let words: OCRLine['words'] = [];
+
+  const flushLine = () => {
+    if (words.length === 0) return;
+    const line = buildLine(words);
+    lines.push(line);
+    paragraphs[paragraphs.length - 1] += (paragraphs[paragraphs.length - 1] ? '\n' : '') + line.text;
+    words = [];
+  };
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const cells = row.split('\t');
+    if (cells.length < 12 || cells[0] !== '5') continue;
+    const [, page, block, paragraph, line, , left, top, width, height, confidence] = cells;
+    const text = cells.slice(11).join('\t').trim();
+    if (!text) continue;
+
+    if (`${page}:${block}:${paragraph}:${line}` !== lineKey) {
+      flushLine();
+      lineKey = `${page}:${block}:${paragraph}:${line}`;
+      if (`${page}:${block}:${paragraph}` !== paragraphKey) {
+        paragraphKey = `${page}:${block}:${paragraph}`;
+        paragraphs.push('');
+      }
+    }
+    words.push({
+      text,
+      left: Number(left),
+      top: Number(top),
+      width: Number(width),
+      height: Number(height),
+      confidence: Math.max(0, Math.round(Number(confidence))),
+    });
+  }
+  flushLine();
+  return { text: paragraphs.join('\n\n'), lines };
+}
+
+// Fully offline backend using the tesseract CLI. Language packs must be installed
+// for every language the UI offers (e.g. tesseract-ocr-heb).
+export function createTesseractProvider(): OCRProvider {
+  return {
+    name: 'tesseract',
+    async recognize(input: OCRInput, options: OCROptions): Promise<OCRResult> {
+      const workDir = await mkdtemp(path.join(os.tmpdir(), 'ocr-'));
+      try {
+        const imagePath = path.join(workDir, `input${path.extname(input.fileName) || '.png'}`);
+        await writeFile(imagePath, input.data);
+        const language = TESSERACT_LANGUAGE_CODES[options.language] ?? options.language;
+        const output = await runTesseract(imagePath, language, !!options.layout);
+        if (options.layout) {
+          return { ...parseTsv(output), provider: 'tesseract' };
+        }
+        return { text: output, provider: 'tesseract' };
+      } finally {
+        await rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+      }
+    },
+  };
+}
@@ -0,0 +1,39 @@
+// Contract shared by every OCR backend.
+
+export interface OCRInput {
+  data: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface OCROptions {
+  language: string; // OCR.space style three-letter code, e.g. 'eng', 'heb', or 'auto' for a multi-script read
+  layout?: boolean; // Also return word boxes, for reviewing the text against the image
+}
+
+// Pixel geometry in the uploaded image
+export interface OCRWord {
+  text: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  confidence: number | null; // 0..100; null when the provider does not report it
+}
+
+export interface OCRLine {
+  text: string;
+  words: OCRWord[];
+  confidence: number | null; // Mean of the word confidences
+}
+
+export interface OCRResult {
+  text: string;
+  provider: string;
+  lines?: OCRLine[]; // Only when layout was requested
+}
+
+export interface OCRProvider {
+  readonly name: string;
+  recognize(input: OCRInput, options: OCROptions): Promise<OCRResult>;
+}
@@ -0,0 +1,95 @@
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+// Runs of generated code are kept on local disk so developers can see exactly what
+// was executed and what it printed. PYTHON_DEBUG_RETENTION_HOURS=0 turns this off.
+const DEBUG_DIR = process.env.PYTHON_DEBUG_DIR || path.join(process.cwd(), '.data', 'debug-runs');
+const RETENTION_HOURS = Number.parseFloat(process.env.PYTHON_DEBUG_RETENTION_HOURS || '24');
+const RETENTION_MS = (Number.isFinite(RETENTION_HOURS) ? Math.max(0, RETENTION_HOURS) : 24) * 60 * 60 * 1000;
+
+// Figures are saved as files, so output is only prints and tracebacks; only the head is worth keeping
+const MAX_RETAINED_OUTPUT_CHARS = 64 * 1024;
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+// Ids are uuids; anything else never touches the filesystem
+const ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+export interface RetainedRun {
+  attempt: number;
+  script: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;   // null when the run was stopped (timeout, crash) or never started
+  errorCode: string | null;  // PythonErrorCode of the failure, null on success
+  durationMs: number;
+  createdAt: string;
+}
+
+export interface DebugRecord {
+  debugId: string;
+  runs: RetainedRun[];
+}
+
+let lastPruneAt = 0;
+
+export function isRunRetentionEnabled(): boolean {
+  return RETENTION_MS > 0;
+}
+
+// A fresh id to group the runs of one visualization, or null when retention is off.
+export function newDebugId(): string | null {
+  return isRunRetentionEnabled() ? uuidv4() : null;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_RETAINED_OUTPUT_CHARS
+    ? `${text.slice(0, MAX_RETAINED_OUTPUT_CHARS)}\n... [truncated ${text.length - MAX_RETAINED_OUTPUT_CHARS} characters]`
+    : text;
+}
+
+async function pruneExpiredRuns() {
+  if (Date.now() - lastPruneAt < PRUNE_INTERVAL_MS) return;
+  lastPruneAt = Date.now();
+  const cutoff = Date.now() - RETENTION_MS;
+  const entries = await readdir(DEBUG_DIR).catch(() => [] as string[]);
+  for (const entry of entries) {
+    const dir = path.join(DEBUG_DIR, entry);
+    const info = await stat(dir).catch(() => null);
+    if (info && info.mtimeMs < cutoff) {
+      await rm(dir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+}
+
+// Save one attempt under its debug id: the script as attempt-N.py next to a JSON
+// record with its output. Failures are logged; they never affect the request.
+export async function retainRun(debugId: string, run: RetainedRun): Promise<void> {
+  if (!isRunRetentionEnabled() || !ID_PATTERN.test(debugId)) return;
+  try {
+    const dir = path.join(DEBUG_DIR, debugId);
+    await mkdir(dir, { recursive: true });
+    await writeFile(path.join(dir, `attempt-${run.attempt}.py`), run.script);
+    await writeFile(
+      path.join(dir, `attempt-${run.attempt}.json`),
+      JSON.stringify({ ...run, stdout: truncate(run.stdout), stderr: truncate(run.stderr) }, null, 2)
+    );
+    await pruneExpiredRuns();
+  } catch (error) {
+    console.warn(`⚠️ Failed to retain debug run ${debugId}:`, error);
+  }
+}
+
+// All retained attempts for a debug id, or null when unknown or expired.
+export async function loadDebugRecord(debugId: string): Promise<DebugRecord | null> {
+  if (!ID_PATTERN.test(debugId)) return null;
+  const dir = path.join(DEBUG_DIR, debugId);
+  const info = await stat(dir).catch(() => null);
+  if (!info || Date.now() - info.mtimeMs > RETENTION_MS) return null;
+
+  const files = (await readdir(dir)).filter((file) => /^attempt-\d+\.json$/.test(file));
+  const runs = await Promise.all(
+    files.map(async (file) => JSON.parse(await readFile(path.join(dir, file), 'utf-8')) as RetainedRun)
+  );
+  return { debugId, runs: runs.sort((a, b) => a.attempt - b.attempt) };
+}
@@ -0,0 +1,78 @@
+// Typed errors raised while running generated Python code.
+// Each error carries a stable `code` so API routes can tell the client
+// exactly what went wrong instead of a generic failure message.
+
+export type PythonErrorCode =
+  | 'PYTHON_EXECUTION_FAILED'
+  | 'PYTHON_TIMEOUT'
+  | 'PYTHON_CPU_LIMIT'
+  | 'PYTHON_OUTPUT_LIMIT'
+  | 'PYTHON_NO_IMAGE'
+  | 'PYTHON_SPAWN_FAILED'
+  | 'PYTHON_POOL_BUSY'
+  | 'SANDBOX_VIOLATION';
+
+export class PythonExecutionError extends Error {
+  readonly code: PythonErrorCode;
+  readonly stderr: string;
+  readonly exitCode: number | null;
+
+  constructor(message: string, options: { code?: PythonErrorCode; stderr?: string; exitCode?: number | null } = {}) {
+    super(message);
+    this.name = 'PythonExecutionError';
+    this.code = options.code ?? 'PYTHON_EXECUTION_FAILED';
+    this.stderr = options.stderr ?? '';
+    this.exitCode = options.exitCode ?? null;
+  }
+}
+
+// Raised when the script exceeds its wall-clock or CPU-time budget.
+export class PythonTimeoutError extends PythonExecutionError {
+  readonly limit: 'wall' | 'cpu';
+  readonly budgetMs: number;
+
+  constructor(limit: 'wall' | 'cpu', budgetMs: number, stderr = '') {
+    super(
+      limit === 'wall'
+        ? `Python script exceeded the wall-clock limit of ${budgetMs}ms`
+        : `Python script exceeded the CPU time limit of ${budgetMs / 1000}s`,
+      { code: limit === 'wall' ? 'PYTHON_TIMEOUT' : 'PYTHON_CPU_LIMIT', stderr }
+    );
+    this.name = 'PythonTimeoutError';
+    this.limit = limit;
+    this.budgetMs = budgetMs;
+  }
+}
+
+// Raised when the script writes more to stdout than the configured budget allows.
+export class PythonOutputLimitError extends PythonExecutionError {
+  readonly maxBytes: number;
+
+  constructor(maxBytes: number) {
+    super(`Python script output exceeded the limit of ${maxBytes} bytes`, { code: 'PYTHON_OUTPUT_LIMIT' });
+    this.name = 'PythonOutputLimitError';
+    this.maxBytes = maxBytes;
+  }
+}
+
+// Raised when the static pre-check rejects generated code before it is executed.
+export class SandboxViolationError extends PythonExecutionError {
+  readonly violations: string[];
+
+  constructor(violations: string[]) {
+    super(`Generated code was rejected by the sandbox: ${violations.join('; ')}`, { code: 'SANDBOX_VIOLATION' });
+    this.name = 'SandboxViolationError';
+    this.violations = violations;
+  }
+}
+
+// Raised when every Python worker is busy and the wait queue is full.
+export class PythonPoolBusyError extends PythonExecutionError {
+  readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(`All Python workers are busy; retry in about ${retryAfterSeconds}s`, { code: 'PYTHON_POOL_BUSY' });
+    this.name = 'PythonPoolBusyError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
@@ -0,0 +1,140 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PythonExecutionError, PythonOutputLimitError } from './errors';
+import { createPythonPool, PythonPool } from './pool/pythonPool';
+import { SavedFigure } from './pool/pythonWorker';
+
+// Limits applied to every run of generated code.
+export interface ExecutionBudget {
+  wallTimeMs: number;      // Hard wall-clock limit, after which the worker's process group is killed
+  cpuTimeSeconds: number;  // CPU seconds for this run, enforced through RLIMIT_CPU (0 disables it)
+  maxStdoutBytes: number;  // Stdout beyond this is treated as runaway output
+  maxMemoryBytes: number;  // RLIMIT_AS for the interpreter (0 disables it); fixed when a worker starts
+  maxFileBytes: number;    // RLIMIT_FSIZE, caps the size of any file the script writes (0 disables it); fixed when a worker starts
+  maxFigures: number;      // Figures saved when collecting figures; extra ones are dropped
+}
+
+export interface ExecuteOptions {
+  budget?: ExecutionBudget;
+  cwd?: string;                 // Working directory for the run; HOME and TMPDIR point here too
+  auditHook?: boolean;          // Install the runtime audit hook that blocks process, network and write access outside cwd
+  stdin?: string;               // Contents of sys.stdin for the run
+  collectFigures?: boolean;     // Save the Matplotlib figures left open by the script into cwd
+}
+
+function readIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const value = Number.parseInt(raw, 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Defaults can be tuned per deployment through environment variables.
+export function getDefaultBudget(): ExecutionBudget {
+  return {
+    wallTimeMs: readIntEnv('PYTHON_WALL_TIMEOUT_MS', 30_000),
+    cpuTimeSeconds: readIntEnv('PYTHON_CPU_TIME_SECONDS', 20),
+    maxStdoutBytes: readIntEnv('PYTHON_MAX_STDOUT_BYTES', 10 * 1024 * 1024),
+    maxMemoryBytes: readIntEnv('PYTHON_MAX_MEMORY_MB', 1024) * 1024 * 1024,
+    maxFileBytes: readIntEnv('PYTHON_MAX_FILE_MB', 50) * 1024 * 1024,
+    maxFigures: readIntEnv('PYTHON_MAX_FIGURES', 12),
+  };
+}
+
+function readListEnv(name: string, fallback: string[]): string[] {
+  const raw = process.env[name];
+  if (raw === undefined) return fallback;
+  return raw.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+// Route handlers can be bundled separately, so the pool lives on globalThis to keep
+// one set of workers per server process.
+const globalForPython = globalThis as typeof globalThis & { __pythonPool?: PythonPool };
+
+// Shared pool of pre-warmed interpreters, started on first use and sized by
+// PYTHON_POOL_SIZE, PYTHON_POOL_MAX_QUEUE and PYTHON_WORKER_MAX_JOBS.
+export function getPythonPool(): PythonPool {
+  if (!globalForPython.__pythonPool) {
+    const budget = getDefaultBudget();
+    globalForPython.__pythonPool = createPythonPool({
+      pythonBin: process.env.PYTHON_BIN || 'python',
+      maxMemoryBytes: budget.maxMemoryBytes,
+      maxFileBytes: budget.maxFileBytes,
+      preload: readListEnv('PYTHON_POOL_PRELOAD', ['numpy', 'matplotlib.pyplot']),
+      size: Math.max(1, readIntEnv('PYTHON_POOL_SIZE', 2)),
+      maxQueue: readIntEnv('PYTHON_POOL_MAX_QUEUE', 16),
+      maxJobsPerWorker: Math.max(1, readIntEnv('PYTHON_WORKER_MAX_JOBS', 50)),
+    });
+  }
+  return globalForPython.__pythonPool;
+}
+
+// Scripts are written to this name inside the run directory
+export const SCRIPT_FILE_NAME = 'script.py';
+
+export interface PythonRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  outputLimitExceeded: boolean;
+  figures: SavedFigure[]; // Saved figure files in cwd
+}
+
+// Run a script file on a pooled worker from `cwd`. A failing script resolves with its
+// exit code; only a lost worker (timeouts, crashes) or a full pool rejects. When the
+// audit hook is enabled, spawning processes, opening sockets, writing outside the
+// working directory and reading outside it and the Python libraries (never /proc)
+// raise PermissionError, which covers anything the static check cannot see.
+export function runPythonScript(scriptPath: string, options: ExecuteOptions = {}): Promise<PythonRunResult> {
+  const budget = options.budget ?? getDefaultBudget();
+  return getPythonPool().run(
+    {
+      scriptPath,
+      cwd: options.cwd,
+      stdin: options.stdin,
+      audit: options.auditHook ?? false,
+      cpuSeconds: budget.cpuTimeSeconds,
+      maxStdoutBytes: budget.maxStdoutBytes,
+      collectFigures: options.collectFigures ?? false,
+      maxFigures: budget.maxFigures,
+    },
+    budget.wallTimeMs
+  );
+}
+
+// Turn a finished run into its stdout, or throw the error describing why it failed.
+export function checkRunResult(result: PythonRunResult, budget: ExecutionBudget = getDefaultBudget()): string {
+  if (result.outputLimitExceeded) {
+    console.error(`Python script exceeded stdout limit of ${budget.maxStdoutBytes} bytes`);
+    throw new PythonOutputLimitError(budget.maxStdoutBytes);
+  }
+  if (result.exitCode !== 0) {
+    console.error('Python script stderr:', result.stderr);
+    throw new PythonExecutionError(
+      `Python script execution failed with code ${result.exitCode}: ${result.stderr}`,
+      { stderr: result.stderr, exitCode: result.exitCode }
+    );
+  }
+  if (result.stderr) {
+    // Sometimes Matplotlib might output warnings to stderr even on success
+    console.warn('Python script stderr (but exited 0):', result.stderr);
+  }
+  return result.stdout;
+}
+
+// Execute Python code and capture stdout, enforcing the given budget. The code is
+// written to a script file in `cwd`, or in a throwaway directory when none is given.
+export async function executePython(code: string, options: ExecuteOptions = {}): Promise<string> {
+  const runDir = options.cwd ?? await mkdtemp(path.join(os.tmpdir(), 'viz-python-'));
+  try {
+    const scriptPath = path.join(runDir, SCRIPT_FILE_NAME);
+    await writeFile(scriptPath, code);
+    const result = await runPythonScript(scriptPath, { ...options, cwd: runDir });
+    return checkRunResult(result, options.budget);
+  } finally {
+    if (!options.cwd) {
+      await rm(runDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { PythonExecutionError, PythonPoolBusyError } from '../errors';
+import { PythonWorker, startPythonWorker, WorkerConfig, WorkerJob, WorkerJobResult } from './pythonWorker';
+
+export interface PoolConfig extends WorkerConfig {
+  size: number;              // Workers kept warm
+  maxQueue: number;          // Jobs allowed to wait for a worker before new ones are turned away
+  maxJobsPerWorker: number;  // Recycle a worker after this many jobs
+}
+
+export interface PoolStats {
+  workers: number;
+  idle: number;
+  busy: number;
+  queued: number;
+  averageJobMs: number;
+}
+
+export interface PythonPool {
+  // Throws PythonPoolBusyError when the queue is full
+  run(job: WorkerJob, wallTimeMs: number): Promise<WorkerJobResult>;
+  stats(): PoolStats;
+  shutdown(): void;
+}
+
+interface Slot {
+  worker: PythonWorker;
+  state: 'starting' | 'idle' | 'busy' | 'retiring';
+}
+
+interface QueuedJob {
+  job: WorkerJob;
+  wallTimeMs: number;
+  resolve: (result: WorkerJobResult) => void;
+  reject: (error: Error) => void;
+}
+
+export function createPythonPool(config: PoolConfig): PythonPool {
+  const slots = new Set<Slot>();
+  const queue: QueuedJob[] = [];
+  let averageJobMs = 3000; // Initial guess for Retry-After, refined as jobs complete
+  let startupBroken = false;
+
+  // Start workers until `size` of them are running or starting
+  function fill() {
+    const active = [...slots].filter((slot) => slot.state !== 'retiring').length;
+    for (let i = active; i < config.size && !startupBroken; i++) startWorker();
+  }
+
+  function startWorker() {
+    const slot: Slot = { worker: startPythonWorker(config), state: 'starting' };
+    slots.add(slot);
+
+    slot.worker.ready.then(
+      () => {
+        slot.state = 'idle';
+        dispatch();
+      },
+      (error: Error) => {
+        console.error(`❌ Python worker ${slot.worker.id} failed to start:`, error.message);
+        slot.worker.kill();
+        // Without any working worker the queue would never drain, so fail it now
+        const others = [...slots].filter((other) => other !== slot && other.state !== 'starting');
+        if (others.length === 0) {
+          queue.splice(0).forEach((queued) => queued.reject(error));
+        }
+      }
+    );
+
+    slot.worker.onExit(() => {
+      const diedStarting = slot.state === 'starting';
+      slots.delete(slot);
+      if (diedStarting) {
+        // Do not respawn in a loop when Python cannot start; the next run() tries again
+        startupBroken = true;
+        return;
+      }
+      fill();
+    });
+  }
+
+  function dispatch() {
+    while (queue.length > 0) {
+      const slot = [...slots].find((candidate) => candidate.state === 'idle');
+      if (!slot) return;
+      runOn(slot, queue.shift()!);
+    }
+  }
+
+  function runOn(slot: Slot, queued: QueuedJob) {
+    slot.state = 'busy';
+    const startedAt = Date.now();
+    slot.worker.run(queued.job, queued.wallTimeMs).then(
+      (result) => {
+        averageJobMs = averageJobMs * 0.8 + (Date.now() - startedAt) * 0.2;
+        queued.resolve(result);
+        if (slot.worker.jobsRun >= config.maxJobsPerWorker) {
+          slot.state = 'retiring';
+          slot.worker.retire();
+          fill(); // Warm the replacement while the old worker exits
+        } else {
+          slot.state = 'idle';
+        }
+        dispatch();
+      },
+      (error: Error) => {
+        queued.reject(error);
+        if (slot.worker.exited) {
+          // The worker itself was lost; its exit handler starts a replacement
+          slot.state = 'retiring';
+          return;
+        }
+        // Only the job's process was lost (timeout, CPU limit, crash); the worker is still warm
+        slot.state = 'idle';
+        dispatch();
+      }
+    );
+  }
+
+  function retryAfterSeconds(): number {
+    const waves = Math.ceil((queue.length + 1) / Math.max(1, config.size));
+    return Math.max(1, Math.ceil((waves * averageJobMs) / 1000));
+  }
+
+  fill();
+
+  return {
+    run(job: WorkerJob, wallTimeMs: number): Promise<WorkerJobResult> {
+      if (startupBroken) {
+        startupBroken = false;
+        fill();
+      }
+      if (queue.length >= config.maxQueue) {
+        return Promise.reject(new PythonPoolBusyError(retryAfterSeconds()));
+      }
+      return new Promise((resolve, reject) => {
+        queue.push({ job, wallTimeMs, resolve, reject });
+        dispatch();
+      });
+    },
+    stats(): PoolStats {
+      const states = [...slots].map((slot) => slot.state);
+      return {
+        workers: slots.size,
+        idle: states.filter((state) => state === 'idle').length,
+        busy: states.filter((state) => state === 'busy').length,
+        queued: queue.length,
+        averageJobMs: Math.round(averageJobMs),
+      };
+    },
+    shutdown() {
+      startupBroken = true; // Stops exit handlers from refilling
+      queue.splice(0).forEach((queued) => queued.reject(new PythonExecutionError('Python worker pool is shutting down')));
+      slots.forEach((slot) => slot.worker.kill());
+    },
+  };
+}
@@ -0,0 +1,257 @@
+import { spawn, ChildProcess } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { PythonExecutionError, PythonTimeoutError } from '../errors';
+import { PASSTHROUGH_ENV } from '../sandbox/policy';
+import { PYTHON_WORKER_SCRIPT } from './workerScript';
+
+// Give up on a worker that has not finished its preload imports by then
+const STARTUP_TIMEOUT_MS = 60_000;
+// The worker kills a job at its wall-clock limit itself; past this grace period the
+// worker is presumed stuck and its whole process group is killed instead
+const WALL_TIME_GRACE_MS = 5_000;
+
+// Process-wide settings fixed when the worker starts
+export interface WorkerConfig {
+  pythonBin: string;
+  maxMemoryBytes: number;  // RLIMIT_AS (0 disables it)
+  maxFileBytes: number;    // RLIMIT_FSIZE (0 disables it)
+  preload: string[];       // Modules imported before the worker reports ready
+}
+
+// One execution request, sent as the params of an `execute` JSON-RPC call
+export interface WorkerJob {
+  scriptPath: string;   // Script file to compile and run, normally inside cwd
+  cwd?: string;
+  stdin?: string;
+  audit: boolean;
+  cpuSeconds: number;
+  maxStdoutBytes: number;
+  collectFigures?: boolean; // Save open Matplotlib figures to files after the script
+  maxFigures?: number;
+  wallTimeMs?: number;      // Set by run(); the worker kills the job's process at this limit
+}
+
+export interface WorkerJobResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  outputLimitExceeded: boolean;
+  figures: SavedFigure[]; // In figure order
+}
+
+export interface SavedFigure {
+  fileName: string;       // Relative to cwd
+  caption: string | null; // The figure's label, if the script gave it one
+}
+
+export interface PythonWorker {
+  readonly id: number;
+  readonly ready: Promise<void>; // Rejects if the worker dies or stalls while starting
+  readonly jobsRun: number;
+  readonly exited: boolean;
+  // Resolves with the script's result, including failing scripts. Rejects when the job's
+  // process was lost (wall-clock timeout, CPU limit, crash); the worker stays usable
+  // unless `exited` is set afterwards.
+  run(job: WorkerJob, wallTimeMs: number): Promise<WorkerJobResult>;
+  retire(): void; // Let the worker exit once stdin closes
+  kill(): void;
+  onExit(listener: () => void): void;
+}
+
+// Minimal environment: no secrets from the server, and every location Python or
+// Matplotlib may write to points into the worker's own directory.
+function buildWorkerEnv(workerDir: string): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { NODE_ENV: process.env.NODE_ENV };
+  for (const name of PASSTHROUGH_ENV) {
+    if (process.env[name]) env[name] = process.env[name];
+  }
+  return {
+    ...env,
+    HOME: workerDir,
+    TMPDIR: workerDir,
+    MPLCONFIGDIR: workerDir,
+    MPLBACKEND: 'Agg',
+    PYTHONDONTWRITEBYTECODE: '1',
+    PYTHONNOUSERSITE: '1',
+    PYTHONUNBUFFERED: '1',
+    OPENBLAS_NUM_THREADS: '1', // Jobs are forked from the worker; keep numpy from starting threads before the fork
+  };
+}
+
+// Kill the interpreter together with anything it spawned.
+function killProcessTree(child: ChildProcess) {
+  if (child.pid === undefined) return;
+  try {
+    // Negative pid targets the process group created by `detached: true`
+    process.kill(-child.pid, 'SIGKILL');
+  } catch {
+    // Process groups are not available on every platform; fall back to the child itself
+    child.kill('SIGKILL');
+  }
+}
+
+// Turn the worker's report about a lost job process into the matching error
+function describeJobFailure(error: { message: string; data?: any }, budget: { wallTimeMs: number; cpuSeconds: number }): Error {
+  const failure = error.data ?? {};
+  if (failure.reason === 'wall') return new PythonTimeoutError('wall', budget.wallTimeMs);
+  if (failure.reason === 'cpu') return new PythonTimeoutError('cpu', budget.cpuSeconds * 1000);
+  if (failure.reason === 'crash') {
+    // A SIGKILL that is not the CPU limit is most often the memory limit or the OOM killer
+    const how = failure.signal === 'SIGKILL'
+      ? 'signal SIGKILL, likely for running out of memory'
+      : failure.signal ? `signal ${failure.signal}` : `code ${failure.exitCode}`;
+    return new PythonExecutionError(`Python script process crashed with ${how}`, { exitCode: failure.exitCode ?? null });
+  }
+  return new PythonExecutionError(`Python worker error: ${error.message}`);
+}
+
+let nextWorkerId = 1;
+
+export function startPythonWorker(config: WorkerConfig): PythonWorker {
+  const id = nextWorkerId++;
+  const workerDir = mkdtempSync(path.join(os.tmpdir(), 'viz-worker-'));
+  const child = spawn(
+    config.pythonBin,
+    ['-c', PYTHON_WORKER_SCRIPT, JSON.stringify({ memory: config.maxMemoryBytes, fsize: config.maxFileBytes, preload: config.preload })],
+    { cwd: workerDir, env: buildWorkerEnv(workerDir), detached: process.platform !== 'win32' }
+  );
+
+  let jobsRun = 0;
+  let exited = false;
+  let stderrTail = '';
+  let nextRequestId = 1;
+  const exitListeners: (() => void)[] = [];
+
+  // The job in flight, if any; responses are matched on the request id
+  let pending: {
+    requestId: number;
+    resolve: (result: WorkerJobResult) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+    budget: { wallTimeMs: number; cpuSeconds: number };
+    killReason: Error | null;
+  } | null = null;
+
+  let markReady: () => void;
+  let failStartup: (error: Error) => void;
+  const ready = new Promise<void>((resolve, reject) => {
+    markReady = resolve;
+    failStartup = reject;
+  });
+  ready.catch(() => {}); // Callers that never await it must not cause an unhandled rejection
+  const startupTimer = setTimeout(() => {
+    failStartup(new PythonExecutionError(`Python worker did not start within ${STARTUP_TIMEOUT_MS}ms`, { code: 'PYTHON_SPAWN_FAILED', stderr: stderrTail }));
+    killProcessTree(child);
+  }, STARTUP_TIMEOUT_MS);
+
+  // Writes to a worker that just died fail with EPIPE; the 'close' handler reports it
+  child.stdin.on('error', (err) => {
+    console.warn(`Python worker ${id} stdin error:`, err.message);
+  });
+
+  child.stderr.on('data', (data: Buffer) => {
+    stderrTail = (stderrTail + data.toString()).slice(-8192);
+  });
+
+  readline.createInterface({ input: child.stdout, crlfDelay: Infinity }).on('line', (line) => {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      console.warn(`Python worker ${id} wrote a malformed protocol line, ignoring it`);
+      return;
+    }
+    if (message.method === 'ready') {
+      clearTimeout(startupTimer);
+      markReady();
+      return;
+    }
+    if (!pending || message.id !== pending.requestId) return;
+    const job = pending;
+    pending = null;
+    clearTimeout(job.timer);
+    jobsRun++;
+    if (message.error) {
+      job.reject(describeJobFailure(message.error, job.budget));
+    } else {
+      job.resolve(message.result as WorkerJobResult);
+    }
+  });
+
+  const handleExit = (exitCode: number | null, signal: NodeJS.Signals | null) => {
+    if (exited) return;
+    exited = true;
+    clearTimeout(startupTimer);
+    console.log(`Python worker ${id} exited with code ${exitCode}${signal ? ` (signal ${signal})` : ''} after ${jobsRun} job(s)`);
+    failStartup(new PythonExecutionError(
+      `Python worker exited during startup with code ${exitCode}: ${stderrTail}`,
+      { code: 'PYTHON_SPAWN_FAILED', stderr: stderrTail, exitCode }
+    ));
+
+    if (pending) {
+      const job = pending;
+      pending = null;
+      clearTimeout(job.timer);
+      if (job.killReason) {
+        job.reject(job.killReason);
+      } else {
+        job.reject(new PythonExecutionError(
+          `Python worker crashed with code ${exitCode}${signal ? ` (signal ${signal})` : ''}: ${stderrTail}`,
+          { stderr: stderrTail, exitCode }
+        ));
+      }
+    }
+
+    rmSync(workerDir, { recursive: true, force: true });
+    exitListeners.forEach((listener) => listener());
+  };
+
+  child.on('error', (err) => {
+    console.error(`Failed to start Python worker ${id}:`, err);
+    clearTimeout(startupTimer);
+    failStartup(new PythonExecutionError(`Failed to start Python process: ${err.message}`, { code: 'PYTHON_SPAWN_FAILED' }));
+    // A process that never spawned will not emit 'close'
+    if (child.pid === undefined) handleExit(null, null);
+  });
+
+  child.on('close', handleExit);
+
+  return {
+    id,
+    ready,
+    get jobsRun() {
+      return jobsRun;
+    },
+    get exited() {
+      return exited;
+    },
+    run(job: WorkerJob, wallTimeMs: number): Promise<WorkerJobResult> {
+      if (exited) return Promise.reject(new PythonExecutionError('Python worker is no longer running'));
+      if (pending) return Promise.reject(new PythonExecutionError('Python worker is busy'));
+
+      return new Promise((resolve, reject) => {
+        const requestId = nextRequestId++;
+        const timer = setTimeout(() => {
+          console.error(`Python worker ${id} did not stop a job at its wall-clock limit of ${wallTimeMs}ms, killing process group`);
+          if (pending) pending.killReason = new PythonTimeoutError('wall', wallTimeMs, stderrTail);
+          killProcessTree(child);
+        }, wallTimeMs + WALL_TIME_GRACE_MS);
+        pending = { requestId, resolve, reject, timer, budget: { wallTimeMs, cpuSeconds: job.cpuSeconds }, killReason: null };
+        const params: WorkerJob = { ...job, wallTimeMs };
+        child.stdin.write(JSON.stringify({ jsonrpc: '2.0', id: requestId, method: 'execute', params }) + '\n');
+      });
+    },
+    retire() {
+      if (!exited) child.stdin.end();
+    },
+    kill() {
+      if (!exited) killProcessTree(child);
+    },
+    onExit(listener: () => void) {
+      exitListeners.push(listener);
+    },
+  };
+}
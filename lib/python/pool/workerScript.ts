@@ -0,0 +1,302 @@
+// Long-lived Python worker. Reads one JSON-RPC request per line on stdin and answers
+// on stdout. The real stdin/stdout file descriptors are pointed at /dev/null once the
+// protocol has private copies of them, so nothing the generated code (or a C
+// extension) prints can corrupt the stream; prints go to a per-job buffer instead.
+//
+// The worker itself never runs generated code. Each job runs in a child forked from the
+// warmed interpreter, which keeps the preloaded modules without sharing any state back:
+// monkeypatches, leaked globals and open figures die with the child. The child closes
+// the protocol streams, installs the audit hook before the script runs and exits after
+// reporting its result on a private pipe; the hook has no off switch.
+//
+// Memory and file-size limits apply to the worker and are inherited by every child.
+// The CPU budget is set on the child alone, so a runaway job gets SIGXCPU. The worker
+// enforces the wall-clock limit by killing the child, and stays warm for the next job.
+//
+// With collectFigures set, the child saves every figure still open when the script
+// ends as figure-N.<format> in the run directory, so generated code never has to
+// encode or print its own output.
+export const PYTHON_WORKER_SCRIPT = `
+import importlib, io, json, os, select, signal, sys, tempfile, time, traceback
+
+CONFIG = json.loads(sys.argv[1])
+del sys.argv[1:]
+
+_rpc_in = os.fdopen(os.dup(0), 'r', encoding='utf-8')
+_rpc_out = os.fdopen(os.dup(1), 'w', encoding='utf-8')
+_null = os.open(os.devnull, os.O_RDWR)
+os.dup2(_null, 0)
+os.dup2(_null, 1)
+_home = os.path.realpath(os.getcwd())
+
+try:
+    import resource
+except ImportError:
+    resource = None
+
+def _fix_limit(name, value):
+    if resource is None or value <= 0 or not hasattr(resource, name):
+        return
+    try:
+        resource.setrlimit(getattr(resource, name), (value, value))
+    except (ValueError, OSError):
+        pass
+
+_fix_limit('RLIMIT_AS', CONFIG['memory'])
+_fix_limit('RLIMIT_FSIZE', CONFIG['fsize'])
+if resource is not None:
+    # A job killed by SIGXCPU would otherwise dump core into its run directory
+    resource.setrlimit(resource.RLIMIT_CORE, (0, 0))
+def _set_cpu_budget(seconds):
+    # Only called in a fresh child, whose CPU time starts at zero. The hard limit one
+    # second later kills a script that manages to ignore SIGXCPU.
+    if resource is None or seconds <= 0:
+        return
+    hard = resource.getrlimit(resource.RLIMIT_CPU)[1]
+    soft = seconds if hard == resource.RLIM_INFINITY else min(seconds, hard)
+    hard = soft + 1 if hard == resource.RLIM_INFINITY else min(soft + 1, hard)
+    try:
+        resource.setrlimit(resource.RLIMIT_CPU, (soft, hard))
+    except (ValueError, OSError):
+        pass
+
+def _read_roots(root):
+    # Where a job may read: its run directory, the worker directory (Matplotlib's cache),
+    # the Python installation and library paths, and the directories of known fonts
+    roots = {root, _home, sys.prefix, sys.base_prefix, sys.exec_prefix, sys.base_exec_prefix}
+    roots.update(entry for entry in sys.path if entry and os.path.isdir(entry))
+    mpl = sys.modules.get('matplotlib')
+    if mpl is not None:
+        roots.add(mpl.get_data_path())
+    font_manager = sys.modules.get('matplotlib.font_manager')
+    if font_manager is not None:
+        roots.update(os.path.dirname(font.fname) for font in font_manager.fontManager.ttflist)
+    return tuple(sorted({os.path.realpath(entry) for entry in roots} - {os.sep}))
+
+def _make_audit_hook(root):
+    root = os.path.realpath(root)
+    read_roots = _read_roots(root)
+    blocked_prefixes = ('subprocess.', 'os.exec', 'os.spawn', 'os.posix_spawn', 'socket.', 'urllib.')
+    blocked_events = {'os.system', 'os.fork', 'os.forkpty', 'os.kill', 'os.killpg'}
+    path_events = {'os.remove', 'os.rmdir', 'os.rename', 'os.chmod', 'os.mkdir', 'shutil.rmtree'}
+    listing_events = {'os.listdir', 'os.scandir'}
+    def under(real, base):
+        return real == base or real.startswith(base + os.sep)
+    def inside(path):
+        return os.path.realpath(os.fsdecode(path)).startswith(root + os.sep)
+    def readable(path):
+        real = os.path.realpath(os.fsdecode(path))
+        # /proc exposes the environment and memory of other processes, the server included
+        if under(real, '/proc'):
+            return False
+        return any(under(real, base) for base in read_roots)
+    def hook(event, args):
+        if event in blocked_events or event.startswith(blocked_prefixes):
+            raise PermissionError(f'Sandbox: {event} is not allowed')
+        if event in path_events and args and isinstance(args[0], (str, bytes, os.PathLike)) and not inside(args[0]):
+            raise PermissionError(f'Sandbox: {event} outside the sandbox directory is not allowed')
+        if event in listing_events and args and isinstance(args[0], (str, bytes, os.PathLike)) and not readable(args[0]):
+            raise PermissionError(f'Sandbox: {event} outside the sandbox directory is not allowed')
+        if event == 'open' and isinstance(args[0], (str, bytes, os.PathLike)):
+            mode = args[1] if len(args) > 1 and isinstance(args[1], str) else 'r'
+            flags = args[2] if len(args) > 2 and isinstance(args[2], int) else 0
+            writes = any(c in mode for c in 'wax+') or (flags & (os.O_WRONLY | os.O_RDWR | os.O_CREAT))
+            if writes and not inside(args[0]):
+                raise PermissionError('Sandbox: writing outside the sandbox directory is not allowed')
+            if not writes and not readable(args[0]):
+                raise PermissionError('Sandbox: reading outside the sandbox directory and Python libraries is not allowed')
+    return hook
+
+class _OutputLimitExceeded(BaseException):
+    pass
+
+class _Capture(io.TextIOBase):
+    # Stdout buffer that aborts the job once it grows past the limit
+    def __init__(self, limit):
+        self.parts, self.size, self.limit, self.exceeded = [], 0, limit, False
+    def writable(self):
+        return True
+    def write(self, text):
+        self.size += len(text.encode('utf-8', 'replace'))
+        if self.limit and self.size > self.limit:
+            self.exceeded = True
+            raise _OutputLimitExceeded()
+        self.parts.append(text)
+        return len(text)
+    def getvalue(self):
+        return ''.join(self.parts)
+
+class _TailCapture(io.TextIOBase):
+    # Stderr buffer that keeps the tail, which is where tracebacks end up
+    def __init__(self, limit):
+        self.text, self.limit = '', limit
+    def writable(self):
+        return True
+    def write(self, text):
+        self.text = (self.text + text)[-self.limit:] if self.limit else self.text + text
+        return len(text)
+    def getvalue(self):
+        return self.text
+
+def _load_matplotlibrc():
+    # Apply the run's output settings over the preloaded defaults
+    mpl = sys.modules.get('matplotlib')
+    if mpl is not None and os.path.exists('matplotlibrc'):
+        mpl.rc_file('matplotlibrc')
+
+def _save_figures(limit):
+    # Save every open figure in the format configured by the run's matplotlibrc. The figure
+    # label, set with plt.subplots(num='(a) ...'), becomes its caption.
+    plt = sys.modules.get('matplotlib.pyplot')
+    if plt is None:
+        return []
+    numbers = plt.get_fignums()
+    if limit and len(numbers) > limit:
+        print(f'Only the first {limit} of {len(numbers)} figures were kept', file=sys.stderr)
+        numbers = numbers[:limit]
+    fmt = plt.rcParams['savefig.format']
+    saved = []
+    for index, number in enumerate(numbers, start=1):
+        figure = plt.figure(number)
+        name = f'figure-{index}.{fmt}'
+        figure.savefig(name)
+        saved.append({'fileName': name, 'caption': figure.get_label() or None})
+    return saved
+
+def _use_directory(path):
+    os.chdir(path)
+    os.environ['HOME'] = os.environ['TMPDIR'] = path
+    tempfile.tempdir = path
+
+def _execute(params):
+    # Runs in the forked child
+    cwd = params.get('cwd') or _home
+    stdout = _Capture(params.get('maxStdoutBytes', 0))
+    stderr = _TailCapture(params.get('maxStdoutBytes', 0))
+    exit_code = 0
+    figures = []
+    sys.stdout, sys.stderr, sys.stdin = stdout, stderr, io.StringIO(params.get('stdin') or '')
+    try:
+        _use_directory(cwd)
+        _load_matplotlibrc()
+        # Relative filename: tracebacks stay short and can still quote the source line
+        with open(params['scriptPath'], encoding='utf-8') as script:
+            code = compile(script.read(), os.path.basename(params['scriptPath']), 'exec')
+        if params.get('audit'):
+            sys.addaudithook(_make_audit_hook(cwd))
+        _set_cpu_budget(params.get('cpuSeconds', 0))
+        try:
+            exec(code, {'__name__': '__main__'})
+        except SystemExit as e:
+            if e.code not in (None, 0):
+                raise
+        if params.get('collectFigures'):
+            figures = _save_figures(params.get('maxFigures', 0))
+    except _OutputLimitExceeded:
+        exit_code = 1
+    except SystemExit as e:
+        if e.code is None or isinstance(e.code, int):
+            exit_code = e.code or 0
+        else:
+            stderr.write(f'{e.code}\\n')
+            exit_code = 1
+    except BaseException as e:
+        exit_code = 1
+        # Drop this function's frame so the traceback starts in the generated code
+        tb = e.__traceback__.tb_next if e.__traceback__ is not None else None
+        stderr.write(''.join(traceback.format_exception(type(e), e, tb)))
+    return {
+        'stdout': stdout.getvalue(),
+        'stderr': stderr.getvalue(),
+        'exitCode': exit_code,
+        'outputLimitExceeded': stdout.exceeded,
+        'figures': figures if exit_code == 0 else [],
+    }
+
+def _run_child(params, result_fd):
+    # Never returns: the child must not fall back into the worker's request loop
+    try:
+        _rpc_in.close()
+        _rpc_out.close()
+        result = json.dumps(_execute(params)).encode('utf-8')
+        while result:
+            result = result[os.write(result_fd, result):]
+    finally:
+        os._exit(0)
+
+def _describe_exit(status, usage, cpu_seconds):
+    # Only a CPU overrun counts as the CPU limit: SIGXCPU at the soft limit, or SIGKILL at
+    # the hard limit one second later. Other kills, such as the kernel's OOM killer, are
+    # crashes; the wall-clock kill is reported by the caller before this is consulted.
+    if os.WIFSIGNALED(status):
+        sig = os.WTERMSIG(status)
+        cpu_used = usage.ru_utime + usage.ru_stime
+        if sig == signal.SIGXCPU or (sig == signal.SIGKILL and cpu_seconds > 0 and cpu_used >= cpu_seconds):
+            return {'reason': 'cpu'}
+        return {'reason': 'crash', 'signal': signal.Signals(sig).name}
+    return {'reason': 'crash', 'exitCode': os.WEXITSTATUS(status)}
+
+def _run_job(params):
+    # Fork, collect the child's result within the wall-clock limit, then reap it
+    read_fd, write_fd = os.pipe()
+    pid = os.fork()
+    if pid == 0:
+        os.close(read_fd)
+        _run_child(params, write_fd)
+    os.close(write_fd)
+
+    deadline = time.monotonic() + params.get('wallTimeMs', 0) / 1000 if params.get('wallTimeMs') else None
+    chunks, timed_out = [], False
+    try:
+        while True:
+            remaining = None if deadline is None else deadline - time.monotonic()
+            if remaining is not None and remaining <= 0:
+                timed_out = True
+                break
+            if not select.select([read_fd], [], [], remaining)[0]:
+                continue
+            chunk = os.read(read_fd, 65536)
+            if not chunk:
+                break
+            chunks.append(chunk)
+    finally:
+        os.close(read_fd)
+    if timed_out:
+        try:
+            os.kill(pid, signal.SIGKILL)
+        except ProcessLookupError:
+            pass
+    _, status, usage = os.wait4(pid, 0)
+
+    if timed_out:
+        return None, {'reason': 'wall'}
+    if os.WIFEXITED(status) and os.WEXITSTATUS(status) == 0 and chunks:
+        return json.loads(b''.join(chunks)), None
+    return None, _describe_exit(status, usage, params.get('cpuSeconds', 0))
+
+def _send(message):
+    _rpc_out.write(json.dumps(message) + '\\n')
+    _rpc_out.flush()
+
+# Pre-warm: pay for the heavy imports once per worker instead of once per request
+for _module in CONFIG['preload']:
+    try:
+        importlib.import_module(_module)
+    except Exception as e:
+        print(f'Could not preload {_module}: {e}', file=sys.stderr)
+
+_send({'jsonrpc': '2.0', 'method': 'ready', 'params': {'pid': os.getpid()}})
+
+for _line in _rpc_in:
+    if not _line.strip():
+        continue
+    _request = json.loads(_line)
+    if _request.get('method') != 'execute':
+        _send({'jsonrpc': '2.0', 'id': _request.get('id'), 'error': {'code': -32601, 'message': 'Method not found'}})
+        continue
+    _result, _failure = _run_job(_request['params'])
+    if _failure is None:
+        _send({'jsonrpc': '2.0', 'id': _request['id'], 'result': _result})
+    else:
+        _send({'jsonrpc': '2.0', 'id': _request['id'], 'error': {'code': -32000, 'message': 'Job process was lost', 'data': _failure}})
+`;
@@ -0,0 +1,74 @@
+// What generated visualization code is allowed to do.
+
+// Top-level modules that may be imported. io and base64 are part of the
+// output contract in the prompt (the figure is printed as base64).
+export const ALLOWED_MODULES = [
+  'matplotlib',
+  'mpl_toolkits',
+  'numpy',
+  'sympy',
+  'math',
+  'cmath',
+  'fractions',
+  'decimal',
+  'io',
+  'base64',
+];
+
+// Builtins that can be used to escape the static check and are never
+// needed for plotting.
+export const DENIED_NAMES = [
+  'eval',
+  'exec',
+  'compile',
+  '__import__',
+  '__builtins__',
+  'globals',
+  'locals',
+  'vars',
+  'input',
+  'breakpoint',
+  'exit',
+  'quit',
+];
+
+// Attribute names that lead from an allowed module to the interpreter internals or the
+// file system, e.g. plt.sys.modules['os'], or that read arbitrary files. Plotting code
+// never needs them; the runtime audit hook still guards what a dynamic lookup reaches.
+export const DENIED_ATTRIBUTES = [
+  'sys',
+  'os',
+  'modules',
+  'subprocess',
+  'builtins',
+  'importlib',
+  'ctypes',
+  'ctypeslib',
+  'shutil',
+  'socket',
+  'pathlib',
+  '_getframe',
+  'f_globals',
+  'f_locals',
+  'f_back',
+  'f_builtins',
+  'gi_frame',
+  'cr_frame',
+  'tb_frame',
+  'fromfile',
+  'loadtxt',
+  'genfromtxt',
+  'memmap',
+  'imread',
+];
+
+// Environment variables passed through to the interpreter. Everything else,
+// including GEMINI_API_KEY and OCR_SPACE_API_KEY, is stripped.
+export const PASSTHROUGH_ENV = [
+  'PATH',
+  'LANG',
+  'LC_ALL',
+  'SYSTEMROOT',
+  'PYENV_ROOT',
+  'PYENV_VERSION',
+];
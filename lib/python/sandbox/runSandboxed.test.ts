@@ -0,0 +1,44 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { getDefaultBudget, getPythonPool } from '../executePython';
+import { PythonExecutionError, SandboxViolationError } from '../errors';
+import { runSandboxed } from './runSandboxed';
+
+afterAll(() => getPythonPool().shutdown());
+
+// The audit hook is the runtime layer behind the static check: these scripts pass the
+// check and must still be stopped while running.
+describe('runSandboxed', () => {
+  it('runs code and reads files of its own directory', async () => {
+    const { stdout } = await runSandboxed("print(open('data.txt').read())", { files: { 'data.txt': 'inside' } });
+    expect(stdout.trim()).toBe('inside');
+  });
+
+  it('collects the open figures with their captions', async () => {
+    const code = "import matplotlib.pyplot as plt\nfig, ax = plt.subplots(num='Parabola')\nax.plot([0, 1, 2], [0, 1, 4])";
+    const { figures } = await runSandboxed(code, { collectFigures: true });
+    expect(figures).toHaveLength(1);
+    expect(figures[0].caption).toBe('Parabola');
+    expect(figures[0].data.length).toBeGreaterThan(0);
+  });
+
+  it('rejects code that fails the static check before running it', async () => {
+    await expect(runSandboxed('import os')).rejects.toBeInstanceOf(SandboxViolationError);
+  });
+
+  it.each([
+    ['the environment of the process', "print(open('/proc/self/environ').read())"],
+    ['files outside the sandbox directory', "print(open('/etc/passwd').read())"],
+    ['writes outside the sandbox directory', "import matplotlib.pyplot as plt\nplt.plot([0, 1])\nplt.savefig('/tmp/escaped.png')"],
+  ])('denies reading or writing %s', async (_, code) => {
+    const run = runSandboxed(code);
+    await expect(run).rejects.toBeInstanceOf(PythonExecutionError);
+    await expect(run).rejects.toMatchObject({ code: 'PYTHON_EXECUTION_FAILED' });
+  });
+
+  it('stops scripts at the wall-clock limit and keeps working afterwards', async () => {
+    const budget = { ...getDefaultBudget(), wallTimeMs: 1000, cpuTimeSeconds: 5 };
+    await expect(runSandboxed('while True:\n    pass', { budget })).rejects.toMatchObject({ code: 'PYTHON_TIMEOUT' });
+    const { stdout } = await runSandboxed('print(6 * 7)');
+    expect(stdout.trim()).toBe('42');
+  });
+});
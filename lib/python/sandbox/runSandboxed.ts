@@ -0,0 +1,94 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { retainRun, RetainedRun } from '../debugRuns';
+import { checkRunResult, ExecutionBudget, PythonRunResult, runPythonScript, SCRIPT_FILE_NAME } from '../executePython';
+import { SandboxViolationError } from '../errors';
+import { staticCheck } from './staticCheck';
+
+export interface SandboxOptions {
+  budget?: ExecutionBudget;
+  files?: Record<string, string>;           // Written into the sandbox directory before the run, e.g. a matplotlibrc
+  debug?: { id: string; attempt: number };  // Retain the script and its output under this debug id
+  collectFigures?: boolean;                 // Have the harness save the open Matplotlib figures after the run
+}
+
+export interface SandboxFigure {
+  fileName: string;
+  caption: string | null;
+  data: Buffer;
+}
+
+export interface SandboxResult {
+  stdout: string;
+  figures: SandboxFigure[]; // Empty unless collectFigures is set
+}
+
+// Run untrusted generated code: static pre-check first, then execution in an
+// isolated temp directory on a pooled worker with rlimits, the audit hook and a
+// stripped environment.
+export async function runSandboxed(code: string, options: SandboxOptions = {}): Promise<SandboxResult> {
+  const startedAt = Date.now();
+  const retain = (outcome: Pick<RetainedRun, 'stdout' | 'stderr' | 'exitCode' | 'errorCode'>) =>
+    options.debug
+      ? retainRun(options.debug.id, {
+          attempt: options.debug.attempt,
+          script: code,
+          ...outcome,
+          durationMs: Date.now() - startedAt,
+          createdAt: new Date(startedAt).toISOString(),
+        })
+      : Promise.resolve();
+
+  const check = await staticCheck(code);
+  if (check.violations.length > 0) {
+    console.warn('🛑 Sandbox rejected generated code:', check.violations);
+    await retain({ stdout: '', stderr: check.violations.join('\n'), exitCode: null, errorCode: 'SANDBOX_VIOLATION' });
+    throw new SandboxViolationError(check.violations);
+  }
+  // Syntax errors are left to the interpreter so the caller gets a normal traceback
+
+  const sandboxDir = await mkdtemp(path.join(os.tmpdir(), 'viz-sandbox-'));
+  try {
+    for (const [name, content] of Object.entries(options.files ?? {})) {
+      await writeFile(path.join(sandboxDir, path.basename(name)), content);
+    }
+    const scriptPath = path.join(sandboxDir, SCRIPT_FILE_NAME);
+    await writeFile(scriptPath, code);
+
+    let result: PythonRunResult;
+    try {
+      result = await runPythonScript(scriptPath, {
+        budget: options.budget,
+        cwd: sandboxDir,
+        auditHook: true,
+        collectFigures: options.collectFigures,
+      });
+    } catch (error: any) {
+      await retain({ stdout: '', stderr: error?.stderr || error?.message || '', exitCode: null, errorCode: error?.code ?? null });
+      throw error;
+    }
+
+    await retain({
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+      errorCode: result.outputLimitExceeded ? 'PYTHON_OUTPUT_LIMIT' : result.exitCode !== 0 ? 'PYTHON_EXECUTION_FAILED' : null,
+    });
+    const stdout = checkRunResult(result, options.budget);
+
+    // Read the figures before the directory is removed
+    const figures = await Promise.all(
+      result.figures.map(async ({ fileName, caption }) => ({
+        fileName,
+        caption,
+        data: await readFile(path.join(sandboxDir, path.basename(fileName))),
+      }))
+    );
+    return { stdout, figures };
+  } finally {
+    await rm(sandboxDir, { recursive: true, force: true }).catch((err) => {
+      console.warn('Failed to remove sandbox directory:', sandboxDir, err);
+    });
+  }
+}
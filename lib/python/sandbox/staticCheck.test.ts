@@ -0,0 +1,42 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { getPythonPool } from '../executePython';
+import { staticCheck } from './staticCheck';
+
+afterAll(() => getPythonPool().shutdown());
+
+describe('staticCheck', () => {
+  it('accepts ordinary plotting code', async () => {
+    const code = `import matplotlib.pyplot as plt
+import numpy as np
+
+x = np.linspace(-3, 3, 50)
+fig, ax = plt.subplots()
+ax.plot(x, x ** 2)
+ax.set_title('y = x^2')`;
+    expect(await staticCheck(code)).toEqual({ violations: [], syntaxError: null });
+  });
+
+  it.each([
+    ['imports outside the allowlist', 'import os'],
+    ['submodules of denied packages', 'import numpy.ctypeslib'],
+    ['denied builtins', "eval('1 + 1')"],
+    ['dunder attributes', '().__class__.__bases__[0].__subclasses__()'],
+    ['module internals reached through an allowed module', "import matplotlib.pyplot as plt\nplt.sys.modules['os'].system('id')"],
+    ['builtins reached through an allowed module', "import numpy as np\nnp.builtins.open('/etc/passwd')"],
+    ['os reached through an allowed module', "import numpy as np\nnp.os.system('id')"],
+    ['module internals imported by name', 'from matplotlib.pyplot import sys'],
+    ['module internals looked up by name', "import matplotlib.pyplot as plt\ngetattr(plt, 'sys')"],
+    ['dynamic attribute names', "import matplotlib.pyplot as plt\nname = 'sys'\ngetattr(plt, name)"],
+    ['frame introspection', 'gen = (i for i in [1])\nprint(gen.gi_frame.f_globals)'],
+    ['file readers', "import numpy as np\nnp.fromfile('/etc/passwd')"],
+  ])('rejects %s', async (_, code) => {
+    const { violations } = await staticCheck(code);
+    expect(violations.length).toBeGreaterThan(0);
+  });
+
+  it('reports syntax errors without violations', async () => {
+    const result = await staticCheck('def broken(:\n    pass');
+    expect(result.violations).toEqual([]);
+    expect(result.syntaxError).toBeTruthy();
+  });
+});
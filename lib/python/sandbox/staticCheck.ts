@@ -0,0 +1,76 @@
+import { executePython, getDefaultBudget } from '../executePython';
+import { ALLOWED_MODULES, DENIED_ATTRIBUTES, DENIED_NAMES } from './policy';
+
+export interface StaticCheckResult {
+  violations: string[];
+  syntaxError: string | null;
+}
+
+// AST walker run by a separate interpreter. The generated code is read from stdin
+// and only parsed, never executed. Prints a single JSON object.
+const CHECKER_BODY = `
+allowed = set(POLICY['allowedModules'])
+denied = set(POLICY['deniedNames'])
+denied_attributes = set(POLICY['deniedAttributes'])
+source = sys.stdin.read()
+violations = []
+
+def where(node):
+    return f"line {getattr(node, 'lineno', '?')}"
+
+def module_allowed(name):
+    # numpy.ctypeslib and the like are reached through an allowed package
+    return bool(name) and name.split('.')[0] in allowed and not denied_attributes.intersection(name.split('.')[1:])
+
+def constant_str(node):
+    return node.value if isinstance(node, ast.Constant) and isinstance(node.value, str) else None
+
+try:
+    tree = ast.parse(source)
+except SyntaxError as e:
+    print(json.dumps({'violations': [], 'syntaxError': f'{e.msg} (line {e.lineno})'}))
+    sys.exit(0)
+
+for node in ast.walk(tree):
+    if isinstance(node, ast.Import):
+        for alias in node.names:
+            if not module_allowed(alias.name):
+                violations.append(f"import of '{alias.name}' is not allowed ({where(node)})")
+    elif isinstance(node, ast.ImportFrom):
+        if node.level or not module_allowed(node.module):
+            violations.append(f"import from '{node.module or '.'}' is not allowed ({where(node)})")
+        for alias in node.names:
+            if alias.name in denied_attributes:
+                violations.append(f"import of '{alias.name}' from '{node.module}' is not allowed ({where(node)})")
+    elif isinstance(node, ast.Name) and node.id in denied:
+        violations.append(f"use of '{node.id}' is not allowed ({where(node)})")
+    elif isinstance(node, ast.Attribute) and node.attr.startswith('__') and node.attr.endswith('__'):
+        violations.append(f"access to '{node.attr}' is not allowed ({where(node)})")
+    elif isinstance(node, ast.Attribute) and node.attr in denied_attributes:
+        violations.append(f"access to '.{node.attr}' is not allowed ({where(node)})")
+    elif isinstance(node, ast.Call):
+        func = node.func
+        name = func.id if isinstance(func, ast.Name) else func.attr if isinstance(func, ast.Attribute) else None
+        if name == 'open':
+            mode = node.args[1] if len(node.args) > 1 else next((k.value for k in node.keywords if k.arg == 'mode'), None)
+            mode_str = 'r' if mode is None else constant_str(mode)
+            if mode_str is None or any(c in mode_str for c in 'wax+'):
+                violations.append(f"opening files for writing is not allowed ({where(node)})")
+        elif name in ('getattr', 'setattr', 'delattr', 'hasattr') and isinstance(func, ast.Name):
+            attr = constant_str(node.args[1]) if len(node.args) > 1 else None
+            if attr is None or attr.startswith('_') or attr in denied_attributes:
+                violations.append(f"dynamic attribute access via '{name}' is not allowed ({where(node)})")
+
+print(json.dumps({'violations': violations, 'syntaxError': None}))
+`;
+
+// Statically inspect generated code without running it.
+export async function staticCheck(code: string): Promise<StaticCheckResult> {
+  const policy = JSON.stringify({ allowedModules: ALLOWED_MODULES, deniedNames: DENIED_NAMES, deniedAttributes: DENIED_ATTRIBUTES });
+  const checker = `import ast, json, sys\nPOLICY = json.loads(${JSON.stringify(policy)})\n${CHECKER_BODY}`;
+  const output = await executePython(checker, {
+    budget: { ...getDefaultBudget(), wallTimeMs: 10_000, cpuTimeSeconds: 5 },
+    stdin: code,
+  });
+  return JSON.parse(output) as StaticCheckResult;
+}
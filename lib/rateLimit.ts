@@ -0,0 +1,38 @@
+// Fixed-window request counting per client, kept in this server process's memory.
+// Each instance counts on its own, so behind several instances the limit is per instance.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // Until the client's window resets; 0 when allowed
+}
+
+export interface RateLimiter {
+  check(key: string): RateLimitResult;
+}
+
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    check(key: string): RateLimitResult {
+      const now = Date.now();
+      // Drop finished windows as we go, so one-off clients do not pile up
+      for (const [other, window] of windows) {
+        if (now - window.start >= windowMs) windows.delete(other);
+      }
+
+      const window = windows.get(key) ?? { start: now, count: 0 };
+      windows.set(key, window);
+      if (window.count >= limit) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((window.start + windowMs - now) / 1000) };
+      }
+      window.count++;
+      return { allowed: true, retryAfterSeconds: 0 };
+    },
+  };
+}
+
+// The first address of X-Forwarded-For, as set by the proxy in front of the app
+export function clientKey(headers: Headers): string {
+  return headers.get('x-forwarded-for')?.split(',')[0].trim() || headers.get('x-real-ip') || 'unknown';
+}
@@ -0,0 +1,11 @@
+// Raised when the model's scene description is not valid JSON or fails schema validation.
+export class SceneValidationError extends Error {
+  readonly code = 'SCENE_INVALID';
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Scene description is invalid: ${issues.join('; ')}`);
+    this.name = 'SceneValidationError';
+    this.issues = issues;
+  }
+}
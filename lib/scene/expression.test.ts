@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression } from './expression';
+
+describe('compileExpression', () => {
+  it.each([
+    ['x^2 - 4', 3, 5],
+    ['2*sin(x) + 1', Math.PI / 2, 3],
+    ['sqrt(25 - x^2)', 3, 4],
+    ['(x + 1) / (x - 1)', 3, 2],
+    ['abs(x) + ln(e)', -2, 3],
+    ['log(x)', 1000, 3],
+    ['pi', 0, Math.PI],
+    ['1.5e2 + .5', 0, 150.5],
+  ])('evaluates %s at x = %s', (source, x, expected) => {
+    expect(compileExpression(source)(x)).toBeCloseTo(expected);
+  });
+
+  it('binds unary minus looser than powers', () => {
+    expect(compileExpression('-x^2')(3)).toBe(-9);
+  });
+
+  it('treats powers as right-associative', () => {
+    expect(compileExpression('2^3^2')(0)).toBe(512);
+  });
+
+  it('multiplies implicitly', () => {
+    expect(compileExpression('2x')(4)).toBe(8);
+    expect(compileExpression('3(x + 1)')(1)).toBe(6);
+    expect(compileExpression('2sin(x)')(Math.PI / 2)).toBeCloseTo(2);
+  });
+
+  it('is case-insensitive for names', () => {
+    expect(compileExpression('SIN(X)')(Math.PI / 2)).toBeCloseTo(1);
+  });
+
+  it.each([
+    ['x; import os', /Unexpected character ';'/],
+    ['y + 1', /Unknown identifier 'y'/],
+    ['sin x', /Expected '\('/],
+    ['(x + 1', /Expected '\)'/],
+    ['x +', /Unexpected end/],
+    ['x )', /Unexpected '\)'/],
+    ['constructor(x)', /Unknown identifier/],
+  ])('rejects %s', (source, message) => {
+    expect(() => compileExpression(source)).toThrow(message);
+  });
+});
@@ -0,0 +1,152 @@
+// Tiny parser for the function expressions allowed in scene descriptions,
+// e.g. "x^2 - 4", "2*sin(x) + 1", "sqrt(25 - x^2)". Never uses eval.
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable' }
+  | { kind: 'unary'; op: '-' | '+'; arg: Node }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: Node; right: Node }
+  | { kind: 'call'; fn: string; arg: Node };
+
+const FUNCTIONS: Record<string, (v: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const TOKEN_PATTERN = /\s*(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+|[a-zA-Z]+|\*\*|[-+*/^()])/y;
+
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(TOKEN_PATTERN.lastIndex))) break;
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      throw new Error(`Unexpected character '${source.slice(start).trim()[0]}' in expression "${source}"`);
+    }
+    tokens.push(match[1] === '**' ? '^' : match[1]);
+  }
+  return tokens;
+}
+
+// Recursive descent: expr := term (('+'|'-') term)*, term := factor (('*'|'/') factor)*,
+// factor := ('-'|'+') factor | primary ('^' factor)?, so -x^2 is -(x^2), with implicit
+// multiplication for inputs like "2x" or "3(x+1)".
+function parse(source: string): Node {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected '${token}' in expression "${source}"`);
+  };
+
+  function parseExpression(): Node {
+    let node = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      const op = next() as '+' | '-';
+      node = { kind: 'binary', op, left: node, right: parseTerm() };
+    }
+    return node;
+  }
+
+  function startsPrimary(token: string | undefined): boolean {
+    return token !== undefined && (token === '(' || /^[\d.a-zA-Z]/.test(token));
+  }
+
+  function parseTerm(): Node {
+    let node = parseFactor();
+    while (peek() === '*' || peek() === '/' || startsPrimary(peek())) {
+      const op = peek() === '*' || peek() === '/' ? (next() as '*' | '/') : '*';
+      node = { kind: 'binary', op, left: node, right: parseFactor() };
+    }
+    return node;
+  }
+
+  function parseFactor(): Node {
+    if (peek() === '-' || peek() === '+') {
+      const op = next() as '-' | '+';
+      return { kind: 'unary', op, arg: parseFactor() };
+    }
+    const base = parsePrimary();
+    if (peek() === '^') {
+      next();
+      return { kind: 'binary', op: '^', left: base, right: parseFactor() };
+    }
+    return base;
+  }
+
+  function parsePrimary(): Node {
+    const token = next();
+    if (token === undefined) throw new Error(`Unexpected end of expression "${source}"`);
+    if (token === '(') {
+      const node = parseExpression();
+      expect(')');
+      return node;
+    }
+    if (/^[\d.]/.test(token)) return { kind: 'number', value: Number(token) };
+    const name = token.toLowerCase();
+    if (name === 'x') return { kind: 'variable' };
+    // Own properties only, so names like "constructor" are not found on Object.prototype
+    if (Object.prototype.hasOwnProperty.call(CONSTANTS, name)) return { kind: 'number', value: CONSTANTS[name] };
+    if (Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) {
+      expect('(');
+      const arg = parseExpression();
+      expect(')');
+      return { kind: 'call', fn: name, arg };
+    }
+    throw new Error(`Unknown identifier '${token}' in expression "${source}"`);
+  }
+
+  const tree = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected '${tokens[position]}' in expression "${source}"`);
+  }
+  return tree;
+}
+
+function evaluate(node: Node, x: number): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return x;
+    case 'unary':
+      return node.op === '-' ? -evaluate(node.arg, x) : evaluate(node.arg, x);
+    case 'call':
+      return FUNCTIONS[node.fn](evaluate(node.arg, x));
+    case 'binary': {
+      const left = evaluate(node.left, x);
+      const right = evaluate(node.right, x);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '^': return Math.pow(left, right);
+      }
+    }
+  }
+}
+
+// Compile an expression in x into a function. Throws with a readable message on invalid input.
+export function compileExpression(source: string): (x: number) => number {
+  const tree = parse(source);
+  return (x: number) => evaluate(tree, x);
+}
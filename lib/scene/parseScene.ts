@@ -0,0 +1,24 @@
+import { SceneValidationError } from './errors';
+import { Scene, sceneSchema } from './schema';
+
+// Parse and validate the model's raw answer. Tolerates markdown fences around the JSON.
+export function parseScene(raw: string): Scene {
+  let text = raw.trim();
+  const fenced = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  if (fenced) text = fenced[1];
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error: any) {
+    throw new SceneValidationError([`response is not valid JSON: ${error.message}`]);
+  }
+
+  const result = sceneSchema.safeParse(json);
+  if (!result.success) {
+    throw new SceneValidationError(
+      result.error.issues.map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,285 @@
+import { compileExpression } from './expression';
+import { Scene, ScenePoint } from './schema';
+
+interface Bounds {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+const MAX_SIZE = 800;    // Longest side of the drawing area in px
+const MARGIN = 40;
+const FUNCTION_SAMPLES = 400;
+const COLORS = ['#1f77b4', '#d62728', '#2ca02c', '#9467bd', '#ff7f0e', '#8c564b'];
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const fmt = (value: number) => Number(value.toFixed(2)).toString();
+
+// Bounds covering every element, padded so labels at the edges stay visible
+function computeBounds(scene: Scene, points: Map<string, ScenePoint>): Bounds {
+  if (scene.bounds) return scene.bounds;
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const point of points.values()) {
+    xs.push(point.x);
+    ys.push(point.y);
+  }
+  for (const circle of scene.circles) {
+    const center = points.get(circle.center)!;
+    xs.push(center.x - circle.radius, center.x + circle.radius);
+    ys.push(center.y - circle.radius, center.y + circle.radius);
+  }
+  for (const label of scene.labels) {
+    xs.push(label.x);
+    ys.push(label.y);
+  }
+  for (const fn of scene.functions) {
+    const evaluate = compileExpression(fn.expression);
+    const xMin = fn.xMin ?? -10;
+    const xMax = fn.xMax ?? 10;
+    xs.push(xMin, xMax);
+    for (let i = 0; i <= 50; i++) {
+      const y = evaluate(xMin + ((xMax - xMin) * i) / 50);
+      if (Number.isFinite(y) && Math.abs(y) < 1e6) ys.push(y);
+    }
+  }
+  if (scene.showAxes) {
+    xs.push(0);
+    ys.push(0);
+  }
+  if (xs.length === 0) xs.push(-1, 1);
+  if (ys.length === 0) ys.push(-1, 1);
+
+  let xMin = Math.min(...xs);
+  let xMax = Math.max(...xs);
+  let yMin = Math.min(...ys);
+  let yMax = Math.max(...ys);
+  const span = Math.max(xMax - xMin, yMax - yMin, 1);
+  const pad = span * 0.1;
+  if (xMax - xMin < span * 0.2) {
+    const mid = (xMin + xMax) / 2;
+    xMin = mid - span * 0.1;
+    xMax = mid + span * 0.1;
+  }
+  if (yMax - yMin < span * 0.2) {
+    const mid = (yMin + yMax) / 2;
+    yMin = mid - span * 0.1;
+    yMax = mid + span * 0.1;
+  }
+  return { xMin: xMin - pad, xMax: xMax + pad, yMin: yMin - pad, yMax: yMax + pad };
+}
+
+// Pick a "nice" grid step (1, 2 or 5 times a power of ten) for roughly ten lines
+function gridStep(range: number): number {
+  const raw = range / 10;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const normalized = raw / magnitude;
+  return (normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : 5) * magnitude;
+}
+
+// Render a validated scene to a standalone SVG document. Uses an equal aspect ratio so
+// right angles and circles look right. `widthInches` sets the physical size; the
+// height follows from the aspect ratio.
+export function renderSceneToSvg(scene: Scene, widthInches?: number): string {
+  const points = new Map(scene.points.map((p) => [p.id, p]));
+  const bounds = computeBounds(scene, points);
+  const xRange = bounds.xMax - bounds.xMin;
+  const yRange = bounds.yMax - bounds.yMin;
+  const scale = MAX_SIZE / Math.max(xRange, yRange);
+  const titleHeight = scene.title ? 30 : 0;
+  const width = xRange * scale + MARGIN * 2;
+  const height = yRange * scale + MARGIN * 2 + titleHeight;
+
+  const sx = (x: number) => (x - bounds.xMin) * scale + MARGIN;
+  const sy = (y: number) => (bounds.yMax - y) * scale + MARGIN + titleHeight;
+  const text = (x: number, y: number, content: string, attributes: Record<string, string> = {}) => {
+    const merged: Record<string, string> = { 'font-size': '16', fill: '#111', ...attributes };
+    const rendered = Object.entries(merged).map(([name, value]) => ` ${name}="${value}"`).join('');
+    return `<text x="${fmt(x)}" y="${fmt(y)}"${rendered}>${escapeXml(content)}</text>`;
+  };
+
+  const parts: string[] = [];
+  parts.push(`<rect x="0" y="0" width="${fmt(width)}" height="${fmt(height)}" fill="#fff"/>`);
+  if (scene.title) {
+    parts.push(text(width / 2, 22, scene.title, { 'text-anchor': 'middle', 'font-weight': 'bold', 'font-size': '18' }));
+  }
+
+  // Everything in plot coordinates is clipped to the plot area
+  parts.push(`<defs><clipPath id="plot"><rect x="${MARGIN}" y="${MARGIN + titleHeight}" width="${fmt(xRange * scale)}" height="${fmt(yRange * scale)}"/></clipPath></defs>`);
+  parts.push('<g clip-path="url(#plot)">');
+
+  if (scene.showGrid) {
+    const step = gridStep(Math.max(xRange, yRange));
+    for (let x = Math.ceil(bounds.xMin / step) * step; x <= bounds.xMax; x += step) {
+      parts.push(`<line x1="${fmt(sx(x))}" y1="${fmt(sy(bounds.yMin))}" x2="${fmt(sx(x))}" y2="${fmt(sy(bounds.yMax))}" stroke="#e5e7eb" stroke-width="1"/>`);
+    }
+    for (let y = Math.ceil(bounds.yMin / step) * step; y <= bounds.yMax; y += step) {
+      parts.push(`<line x1="${fmt(sx(bounds.xMin))}" y1="${fmt(sy(y))}" x2="${fmt(sx(bounds.xMax))}" y2="${fmt(sy(y))}" stroke="#e5e7eb" stroke-width="1"/>`);
+    }
+  }
+
+  if (scene.showAxes) {
+    parts.push(`<line x1="${fmt(sx(bounds.xMin))}" y1="${fmt(sy(0))}" x2="${fmt(sx(bounds.xMax))}" y2="${fmt(sy(0))}" stroke="#111" stroke-width="1.2"/>`);
+    parts.push(`<line x1="${fmt(sx(0))}" y1="${fmt(sy(bounds.yMin))}" x2="${fmt(sx(0))}" y2="${fmt(sy(bounds.yMax))}" stroke="#111" stroke-width="1.2"/>`);
+    const step = gridStep(Math.max(xRange, yRange));
+    for (let x = Math.ceil(bounds.xMin / step) * step; x <= bounds.xMax; x += step) {
+      if (Math.abs(x) < step / 2) continue;
+      parts.push(text(sx(x), sy(0) + 16, fmt(x), { 'text-anchor': 'middle', 'font-size': '11', fill: '#555' }));
+    }
+    for (let y = Math.ceil(bounds.yMin / step) * step; y <= bounds.yMax; y += step) {
+      if (Math.abs(y) < step / 2) continue;
+      parts.push(text(sx(0) - 6, sy(y) + 4, fmt(y), { 'text-anchor': 'end', 'font-size': '11', fill: '#555' }));
+    }
+  }
+
+  for (const polygon of scene.polygons) {
+    const vertices = polygon.vertices.map((id) => points.get(id)!);
+    const path = vertices.map((p) => `${fmt(sx(p.x))},${fmt(sy(p.y))}`).join(' ');
+    const fill = polygon.fill ? 'rgba(31,119,180,0.15)' : 'none';
+    parts.push(`<polygon points="${path}" fill="${fill}" stroke="${COLORS[0]}" stroke-width="2"/>`);
+    if (polygon.label) {
+      const cx = vertices.reduce((sum, p) => sum + p.x, 0) / vertices.length;
+      const cy = vertices.reduce((sum, p) => sum + p.y, 0) / vertices.length;
+      parts.push(text(sx(cx), sy(cy), polygon.label, { 'text-anchor': 'middle' }));
+    }
+  }
+
+  scene.functions.forEach((fn, index) => {
+    const evaluate = compileExpression(fn.expression);
+    const xMin = fn.xMin ?? bounds.xMin;
+    const xMax = fn.xMax ?? bounds.xMax;
+    const color = COLORS[(index + 1) % COLORS.length];
+    // Split the curve wherever it is undefined or jumps off-screen (asymptotes)
+    const runs: string[][] = [[]];
+    for (let i = 0; i <= FUNCTION_SAMPLES; i++) {
+      const x = xMin + ((xMax - xMin) * i) / FUNCTION_SAMPLES;
+      const y = evaluate(x);
+      if (!Number.isFinite(y) || y > bounds.yMax + yRange * 10 || y < bounds.yMin - yRange * 10) {
+        if (runs[runs.length - 1].length > 0) runs.push([]);
+        continue;
+      }
+      runs[runs.length - 1].push(`${fmt(sx(x))},${fmt(sy(y))}`);
+    }
+    for (const run of runs) {
+      if (run.length > 1) {
+        parts.push(`<polyline points="${run.join(' ')}" fill="none" stroke="${color}" stroke-width="2"/>`);
+      }
+    }
+    if (fn.label) {
+      const labelX = xMin + (xMax - xMin) * 0.8;
+      const labelY = evaluate(labelX);
+      if (Number.isFinite(labelY)) {
+        parts.push(text(sx(labelX) + 6, sy(labelY) - 8, fn.label, { fill: color }));
+      }
+    }
+  });
+
+  for (const circle of scene.circles) {
+    const center = points.get(circle.center)!;
+    const dash = circle.dashed ? ' stroke-dasharray="6 4"' : '';
+    parts.push(`<circle cx="${fmt(sx(center.x))}" cy="${fmt(sy(center.y))}" r="${fmt(circle.radius * scale)}" fill="none" stroke="${COLORS[0]}" stroke-width="2"${dash}/>`);
+    if (circle.label) {
+      parts.push(text(sx(center.x + circle.radius * Math.SQRT1_2) + 6, sy(center.y + circle.radius * Math.SQRT1_2) - 6, circle.label));
+    }
+  }
+
+  for (const segment of scene.segments) {
+    const a = points.get(segment.from)!;
+    const b = points.get(segment.to)!;
+    const far = (xRange + yRange) * 2;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const start = segment.extend === 'line' ? { x: a.x - (dx / length) * far, y: a.y - (dy / length) * far } : a;
+    const end = segment.extend === 'line' || segment.extend === 'ray' ? { x: b.x + (dx / length) * far, y: b.y + (dy / length) * far } : b;
+    const dash = segment.dashed ? ' stroke-dasharray="6 4"' : '';
+    parts.push(`<line x1="${fmt(sx(start.x))}" y1="${fmt(sy(start.y))}" x2="${fmt(sx(end.x))}" y2="${fmt(sy(end.y))}" stroke="#111" stroke-width="2"${dash}/>`);
+    if (segment.label) {
+      // Offset the label perpendicular to the segment, in screen space
+      const nx = -(dy / length);
+      const ny = dx / length;
+      const mx = sx((a.x + b.x) / 2) + nx * 10;
+      const my = sy((a.y + b.y) / 2) - ny * 10;
+      const anchor = nx > 0.3 ? 'start' : nx < -0.3 ? 'end' : 'middle';
+      parts.push(text(mx, my + 5, segment.label, { 'text-anchor': anchor }));
+    }
+  }
+
+  for (const angle of scene.angles) {
+    const vertex = points.get(angle.vertex)!;
+    const from = points.get(angle.from)!;
+    const to = points.get(angle.to)!;
+    // Work in screen space, where y points down
+    const vx = sx(vertex.x);
+    const vy = sy(vertex.y);
+    let a1 = Math.atan2(sy(from.y) - vy, sx(from.x) - vx);
+    let a2 = Math.atan2(sy(to.y) - vy, sx(to.x) - vx);
+    let sweep = a2 - a1;
+    while (sweep <= -Math.PI) sweep += 2 * Math.PI;
+    while (sweep > Math.PI) sweep -= 2 * Math.PI;
+    if (sweep < 0) {
+      [a1, a2] = [a2, a1];
+      sweep = -sweep;
+    }
+    const mid = a1 + sweep / 2;
+
+    if (angle.right) {
+      const size = 14;
+      const p1 = { x: vx + Math.cos(a1) * size, y: vy + Math.sin(a1) * size };
+      const p2 = { x: vx + Math.cos(a2) * size, y: vy + Math.sin(a2) * size };
+      const corner = { x: p1.x + p2.x - vx, y: p1.y + p2.y - vy };
+      parts.push(`<polyline points="${fmt(p1.x)},${fmt(p1.y)} ${fmt(corner.x)},${fmt(corner.y)} ${fmt(p2.x)},${fmt(p2.y)}" fill="none" stroke="#111" stroke-width="1.5"/>`);
+    } else {
+      const r = 26;
+      const start = { x: vx + Math.cos(a1) * r, y: vy + Math.sin(a1) * r };
+      const end = { x: vx + Math.cos(a2) * r, y: vy + Math.sin(a2) * r };
+      parts.push(`<path d="M ${fmt(start.x)} ${fmt(start.y)} A ${r} ${r} 0 0 1 ${fmt(end.x)} ${fmt(end.y)}" fill="none" stroke="#d62728" stroke-width="1.5"/>`);
+    }
+    if (angle.label) {
+      const labelRadius = 44;
+      parts.push(text(vx + Math.cos(mid) * labelRadius, vy + Math.sin(mid) * labelRadius + 5, angle.label, { 'text-anchor': 'middle', fill: '#d62728' }));
+    }
+  }
+
+  for (const point of scene.points) {
+    if (point.hidden) continue;
+    parts.push(`<circle cx="${fmt(sx(point.x))}" cy="${fmt(sy(point.y))}" r="3.5" fill="#111"/>`);
+    const label = point.label ?? point.id;
+    if (label) {
+      // Push the label outward, away from the middle of the drawing
+      // (points near the middle get their label below-left)
+      const nearMiddle = Math.hypot(sx(point.x) - width / 2, sy(point.y) - height / 2) < 20;
+      const dx = nearMiddle ? -1 : sx(point.x) - width / 2;
+      const dy = nearMiddle ? 1 : sy(point.y) - height / 2;
+      const length = Math.hypot(dx, dy);
+      const lx = sx(point.x) + (dx / length) * 12;
+      const ly = sy(point.y) + (dy / length) * 12 + 5;
+      const anchor = dx / length > 0.3 ? 'start' : dx / length < -0.3 ? 'end' : 'middle';
+      parts.push(text(lx, ly, label, { 'font-weight': 'bold', 'text-anchor': anchor }));
+    }
+  }
+
+  for (const label of scene.labels) {
+    parts.push(text(sx(label.x), sy(label.y), label.text, { 'text-anchor': 'middle' }));
+  }
+
+  parts.push('</g>');
+
+  const physicalWidth = widthInches ? `${fmt(widthInches)}in` : fmt(width);
+  const physicalHeight = widthInches ? `${fmt((widthInches * height) / width)}in` : fmt(height);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${physicalWidth}" height="${physicalHeight}" viewBox="0 0 ${fmt(width)} ${fmt(height)}" font-family="Helvetica, Arial, sans-serif">`,
+    ...parts,
+    '</svg>',
+  ].join('\n');
+}
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { compileExpression } from './expression';
+
+// Scene graph the model returns in "scene" mode. Elements reference points by id,
+// so every point that appears in the drawing must be declared in `points`.
+
+const finite = z.number().finite();
+const pointId = z.string().min(1);
+
+export const scenePointSchema = z.object({
+  id: pointId,
+  x: finite,
+  y: finite,
+  label: z.string().optional(),  // Defaults to the id; use "" to hide
+  hidden: z.boolean().optional(), // Construction points that should not be drawn
+});
+
+export const sceneSegmentSchema = z.object({
+  from: pointId,
+  to: pointId,
+  label: z.string().optional(),   // e.g. "3cm"
+  dashed: z.boolean().optional(),
+  extend: z.enum(['none', 'ray', 'line']).optional(), // Draw beyond the endpoints
+});
+
+export const sceneCircleSchema = z.object({
+  center: pointId,
+  radius: finite.positive(),
+  label: z.string().optional(),
+  dashed: z.boolean().optional(),
+});
+
+export const scenePolygonSchema = z.object({
+  vertices: z.array(pointId).min(3),
+  fill: z.boolean().optional(),
+  label: z.string().optional(),  // e.g. "Area = 35 cm²", drawn at the centroid
+});
+
+export const sceneFunctionSchema = z.object({
+  expression: z.string().min(1), // In x, e.g. "x^2 - 4"
+  xMin: finite.optional(),
+  xMax: finite.optional(),
+  label: z.string().optional(),
+});
+
+export const sceneAngleSchema = z.object({
+  vertex: pointId,
+  from: pointId,
+  to: pointId,
+  label: z.string().optional(),  // e.g. "30°", "θ"
+  right: z.boolean().optional(), // Draw a square marker
+});
+
+export const sceneLabelSchema = z.object({
+  x: finite,
+  y: finite,
+  text: z.string().min(1),
+});
+
+export const sceneSchema = z
+  .object({
+    title: z.string().optional(),
+    bounds: z
+      .object({ xMin: finite, xMax: finite, yMin: finite, yMax: finite })
+      .refine((b) => b.xMin < b.xMax && b.yMin < b.yMax, 'bounds must satisfy xMin < xMax and yMin < yMax')
+      .optional(),
+    showAxes: z.boolean().default(false),
+    showGrid: z.boolean().default(false),
+    points: z.array(scenePointSchema).default([]),
+    segments: z.array(sceneSegmentSchema).default([]),
+    circles: z.array(sceneCircleSchema).default([]),
+    polygons: z.array(scenePolygonSchema).default([]),
+    functions: z.array(sceneFunctionSchema).default([]),
+    angles: z.array(sceneAngleSchema).default([]),
+    labels: z.array(sceneLabelSchema).default([]),
+  })
+  .superRefine((scene, ctx) => {
+    const ids = new Set<string>();
+    scene.points.forEach((point, index) => {
+      if (ids.has(point.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['points', index, 'id'], message: `duplicate point id '${point.id}'` });
+      }
+      ids.add(point.id);
+    });
+
+    const checkRef = (id: string, path: (string | number)[]) => {
+      if (!ids.has(id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `unknown point id '${id}'` });
+      }
+    };
+    scene.segments.forEach((s, i) => {
+      checkRef(s.from, ['segments', i, 'from']);
+      checkRef(s.to, ['segments', i, 'to']);
+    });
+    scene.circles.forEach((c, i) => checkRef(c.center, ['circles', i, 'center']));
+    scene.polygons.forEach((p, i) => p.vertices.forEach((v, j) => checkRef(v, ['polygons', i, 'vertices', j])));
+    scene.angles.forEach((a, i) => {
+      checkRef(a.vertex, ['angles', i, 'vertex']);
+      checkRef(a.from, ['angles', i, 'from']);
+      checkRef(a.to, ['angles', i, 'to']);
+    });
+    scene.functions.forEach((f, i) => {
+      try {
+        compileExpression(f.expression);
+      } catch (error: any) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['functions', i, 'expression'], message: error.message });
+      }
+    });
+
+    const elementCount = scene.points.length + scene.functions.length + scene.labels.length;
+    if (elementCount === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [], message: 'scene is empty' });
+    }
+  });
+
+export type Scene = z.infer<typeof sceneSchema>;
+export type ScenePoint = z.infer<typeof scenePointSchema>;
@@ -0,0 +1,44 @@
+// Minimal server-sent events helpers shared by the streaming route and the browser.
+// EventSource only supports GET, so the client reads the POST response body itself.
+
+export interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
+// Serialize one event; data is always JSON on a single line
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Parse an event stream body, calling onEvent for every complete event.
+// Comment lines (heartbeats) are ignored.
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice('event:'.length).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice('data:'.length).trimStart());
+    }
+    if (dataLines.length > 0) onEvent({ event, data: JSON.parse(dataLines.join('\n')) });
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value.replace(/\r\n/g, '\n');
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+    }
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -0,0 +1,34 @@
+import { createLocalStore } from './localStore';
+import { VisualizationStore } from './types';
+
+let store: Promise<VisualizationStore | null> | null = null;
+
+// Resolve the backend from VISUALIZATION_STORAGE (supabase | local | none). Without an
+// explicit choice, Supabase is used when it is configured and local disk otherwise.
+// The Supabase store is imported lazily because lib/supabaseServerClient throws without its env vars.
+export function getVisualizationStore(): Promise<VisualizationStore | null> {
+  if (!store) {
+    const backend = process.env.VISUALIZATION_STORAGE
+      || (process.env.NEXT_PUBLIC_SUPABASE_URL ? 'supabase' : 'local');
+
+    store = (async () => {
+      switch (backend) {
+        case 'supabase': {
+          const { createSupabaseStore } = await import('./supabaseStore');
+          return createSupabaseStore();
+        }
+        case 'local':
+          return createLocalStore();
+        case 'none':
+          return null;
+        default:
+          console.warn(`Unknown VISUALIZATION_STORAGE '${backend}', visualizations will not be saved`);
+          return null;
+      }
+    })().catch((error) => {
+      store = null; // Forget the failure so the next call retries instead of failing until a restart
+      throw error;
+    });
+  }
+  return store;
+}
@@ -0,0 +1,60 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { figureFileName, figureImageUrl, NewVisualization, StoredImage, VisualizationRecord, VisualizationStore } from './types';
+
+// Ids are uuids; anything else never touches the filesystem
+const ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+// Development/test backend: metadata as JSON and the image next to it on local disk.
+// Images are served by /api/visualizations/[id]/image.
+export function createLocalStore(rootDir: string = process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), '.data', 'visualizations')): VisualizationStore {
+  const metadataPath = (id: string) => path.join(rootDir, `${id}.json`);
+
+  async function get(id: string): Promise<VisualizationRecord | null> {
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      const record = JSON.parse(await readFile(metadataPath(id), 'utf-8')) as VisualizationRecord;
+      return { ...record, figures: record.figures ?? [{ mimeType: record.mimeType, caption: null, imageUrl: record.imageUrl }] };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  return {
+    name: 'local',
+    async save(visualization: NewVisualization): Promise<VisualizationRecord> {
+      await mkdir(rootDir, { recursive: true });
+      const id = uuidv4();
+      const figures = visualization.figures.map((figure, index) => ({
+        mimeType: figure.mimeType,
+        caption: figure.caption,
+        imageUrl: figureImageUrl(id, index),
+      }));
+      const record: VisualizationRecord = {
+        id,
+        problemText: visualization.problemText,
+        code: visualization.code,
+        model: visualization.model,
+        mimeType: figures[0].mimeType,
+        createdAt: new Date().toISOString(),
+        imageUrl: figures[0].imageUrl,
+        figures,
+      };
+      for (const [index, figure] of visualization.figures.entries()) {
+        await writeFile(path.join(rootDir, figureFileName(id, index, figure.mimeType)), figure.image);
+      }
+      await writeFile(metadataPath(id), JSON.stringify(record, null, 2));
+      return record;
+    },
+    get,
+    async getImage(id: string, figureIndex = 0): Promise<StoredImage | null> {
+      const record = await get(id);
+      const figure = record?.figures[figureIndex];
+      if (!figure) return null;
+      const data = await readFile(path.join(rootDir, figureFileName(id, figureIndex, figure.mimeType)));
+      return { data, mimeType: figure.mimeType };
+    },
+  };
+}
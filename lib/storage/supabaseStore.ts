@@ -0,0 +1,105 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../supabaseServerClient';
+import { figureFileName, figureImageUrl, NewVisualization, StoredImage, VisualizationRecord, VisualizationStore } from './types';
+
+const BUCKET = process.env.SUPABASE_VISUALIZATIONS_BUCKET || 'visualizations';
+const TABLE = 'visualizations';
+
+// Ids are uuids; anything else would make Postgres reject the query instead of finding nothing
+const ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+interface FigureRow {
+  mime_type: string;
+  caption: string | null;
+  image_path: string;
+}
+
+// mime_type and image_path repeat the first figure; rows saved before figures were kept have none
+interface VisualizationRow {
+  id: string;
+  problem_text: string;
+  generated_code: string;
+  model: string;
+  mime_type: string;
+  image_path: string;
+  figures: FigureRow[];
+  created_at: string;
+}
+
+function figureRows(row: VisualizationRow): FigureRow[] {
+  return row.figures?.length ? row.figures : [{ mime_type: row.mime_type, caption: null, image_path: row.image_path }];
+}
+
+function toRecord(row: VisualizationRow): VisualizationRecord {
+  return {
+    id: row.id,
+    problemText: row.problem_text,
+    code: row.generated_code,
+    model: row.model,
+    mimeType: row.mime_type,
+    createdAt: row.created_at,
+    imageUrl: figureImageUrl(row.id, 0),
+    figures: figureRows(row).map((figure, index) => ({
+      mimeType: figure.mime_type,
+      caption: figure.caption,
+      imageUrl: figureImageUrl(row.id, index),
+    })),
+  };
+}
+
+// Production backend: figures in a private Storage bucket, metadata in the `visualizations` table
+// (see supabase/migrations), both reached with the service role key only. Images are served by
+// /api/visualizations/[id]/image, which stops serving them once they expire.
+export function createSupabaseStore(): VisualizationStore {
+  async function getRow(id: string): Promise<VisualizationRow | null> {
+    if (!ID_PATTERN.test(id)) return null;
+    const { data, error } = await supabaseAdmin.from(TABLE).select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Failed to load visualization ${id}: ${error.message}`);
+    return data as VisualizationRow | null;
+  }
+
+  return {
+    name: 'supabase',
+    async save(visualization: NewVisualization): Promise<VisualizationRecord> {
+      const id = uuidv4();
+      const figures: FigureRow[] = [];
+      for (const [index, figure] of visualization.figures.entries()) {
+        const imagePath = figureFileName(id, index, figure.mimeType);
+        const { error: uploadError } = await supabaseAdmin.storage
+          .from(BUCKET)
+          .upload(imagePath, figure.image, { contentType: figure.mimeType, upsert: false });
+        if (uploadError) throw new Error(`Failed to upload visualization image: ${uploadError.message}`);
+        figures.push({ mime_type: figure.mimeType, caption: figure.caption, image_path: imagePath });
+      }
+
+      const { data, error: insertError } = await supabaseAdmin
+        .from(TABLE)
+        .insert({
+          id,
+          problem_text: visualization.problemText,
+          generated_code: visualization.code,
+          model: visualization.model,
+          mime_type: figures[0].mime_type,
+          image_path: figures[0].image_path,
+          figures,
+        })
+        .select()
+        .single();
+      if (insertError) throw new Error(`Failed to save visualization row: ${insertError.message}`);
+
+      return toRecord(data as VisualizationRow);
+    },
+    async get(id: string): Promise<VisualizationRecord | null> {
+      const row = await getRow(id);
+      return row ? toRecord(row) : null;
+    },
+    async getImage(id: string, figureIndex = 0): Promise<StoredImage | null> {
+      const row = await getRow(id);
+      const figure = row ? figureRows(row)[figureIndex] : undefined;
+      if (!figure) return null;
+      const { data, error } = await supabaseAdmin.storage.from(BUCKET).download(figure.image_path);
+      if (error || !data) return null;
+      return { data: Buffer.from(await data.arrayBuffer()), mimeType: figure.mime_type };
+    },
+  };
+}
@@ -0,0 +1,67 @@
+// Contract for persisting rendered visualizations so they can be shared.
+
+export interface NewFigure {
+  image: Buffer;
+  mimeType: string;
+  caption: string | null;
+}
+
+export interface NewVisualization {
+  problemText: string;
+  code: string;
+  model: string;
+  figures: NewFigure[]; // At least one; the first is the preview image
+}
+
+export interface StoredFigure {
+  mimeType: string;
+  caption: string | null;
+  imageUrl: string; // Relative to the site origin
+}
+
+export interface VisualizationRecord {
+  id: string;
+  problemText: string;
+  code: string;
+  model: string;
+  mimeType: string;
+  createdAt: string; // ISO timestamp
+  imageUrl: string;  // Image URL of the first figure, relative to the site origin
+  figures: StoredFigure[]; // Every figure in order; records saved before figures were kept list only the first
+}
+
+export interface StoredImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface VisualizationStore {
+  readonly name: string;
+  save(visualization: NewVisualization): Promise<VisualizationRecord>;
+  get(id: string): Promise<VisualizationRecord | null>;
+  getImage(id: string, figureIndex?: number): Promise<StoredImage | null>; // First figure by default
+}
+
+// Served by /api/visualizations/[id]/image; the first figure keeps the plain URL
+export function figureImageUrl(id: string, figureIndex: number): string {
+  const base = `/api/visualizations/${id}/image`;
+  return figureIndex === 0 ? base : `${base}?figure=${figureIndex + 1}`;
+}
+
+// File name of a stored figure: "<id>.png" for the first, "<id>-2.png" for the second, and so on
+export function figureFileName(id: string, figureIndex: number, mimeType: string): string {
+  const suffix = figureIndex === 0 ? '' : `-${figureIndex + 1}`;
+  return `${id}${suffix}.${extensionForMimeType(mimeType)}`;
+}
+
+// File extension used for stored images of a given type
+export function extensionForMimeType(mimeType: string): string {
+  switch (mimeType) {
+    case 'image/svg+xml':
+      return 'svg';
+    case 'application/pdf':
+      return 'pdf';
+    default:
+      return 'png';
+  }
+}
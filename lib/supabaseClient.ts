@@ -1,16 +0,0 @@
-import { createClient } from '@supabase/supabase-js';
-
-// Get Supabase URL and anon key from environment variables
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-// Check if the environment variables are set
-if (!supabaseUrl) {
-  throw new Error("Supabase URL is not set. Please check your .env.local file.");
-}
-if (!supabaseAnonKey) {
-  throw new Error("Supabase anon key is not set. Please check your .env.local file.");
-}
-
-// Create and export the Supabase client
-export const supabase = createClient(supabaseUrl, supabaseAnonKey); 
\ No newline at end of file
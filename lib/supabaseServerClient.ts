@@ -0,0 +1,18 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Server-only client with the service role key, which bypasses row level security.
+// The tables it reaches have no anon policies, so browsers cannot read or write them
+// with the public anon key. Never import this from client components.
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) {
+  throw new Error("Supabase URL is not set. Please check your .env.local file.");
+}
+if (!supabaseServiceRoleKey) {
+  throw new Error("Supabase service role key is not set. Please check your .env.local file.");
+}
+
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
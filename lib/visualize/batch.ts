@@ -0,0 +1,89 @@
+import { parseVisualizeRequest, runVisualizeRequest, VisualizeRequest } from './request';
+
+// Several problems in one call, e.g. every exercise of a worksheet. Items share the
+// request's options and run a few at a time, so a long worksheet neither waits for
+// each problem in turn nor floods the Python pool's queue.
+
+function readIntEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getBatchMaxItems(): number {
+  return readIntEnv('VISUALIZE_BATCH_MAX_ITEMS', 20);
+}
+
+export function getBatchConcurrency(): number {
+  return readIntEnv('VISUALIZE_BATCH_CONCURRENCY', 2);
+}
+
+// An item that failed validation keeps its place in the results
+export type BatchEntry = { ok: true; request: VisualizeRequest } | { ok: false; error: string };
+
+export type ParsedBatchRequest =
+  | { ok: true; entries: BatchEntry[] }
+  | { ok: false; error: string };
+
+export interface BatchItemResult {
+  index: number;
+  status: number;
+  body: Record<string, unknown>;
+}
+
+// `problems` holds problem texts, or objects overriding the shared options per item:
+// { problems: ["...", { problemText: "...", format: "svg" }], format: "png", language: "auto" }
+export function parseBatchRequest(body: any): ParsedBatchRequest {
+  const problems = body?.problems;
+  if (!Array.isArray(problems) || problems.length === 0) {
+    return { ok: false, error: 'Expected a non-empty "problems" array.' };
+  }
+  const maxItems = getBatchMaxItems();
+  if (problems.length > maxItems) {
+    return { ok: false, error: `Too many problems. A batch can hold at most ${maxItems}.` };
+  }
+
+  const shared = { ...body };
+  delete shared.problems;
+  const entries = problems.map((problem: unknown): BatchEntry => {
+    const item = typeof problem === 'string' ? { problemText: problem } : problem;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return { ok: false, error: 'Each problem must be a string or an object with problemText.' };
+    }
+    const parsed = parseVisualizeRequest({ ...shared, ...item });
+    return parsed.ok ? { ok: true, request: parsed.request } : { ok: false, error: parsed.error };
+  });
+  return { ok: true, entries };
+}
+
+// Run every valid entry through the pipeline, at most `concurrency` at once, and return
+// one result per entry in input order. Never throws: crashes become 500 results.
+export async function runVisualizeBatch(
+  entries: BatchEntry[],
+  concurrency = getBatchConcurrency()
+): Promise<BatchItemResult[]> {
+  const results: BatchItemResult[] = new Array(entries.length);
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < entries.length) {
+      const index = next++;
+      const entry = entries[index];
+      if (!entry.ok) {
+        results[index] = { index, status: 400, body: { error: entry.error } };
+        continue;
+      }
+      try {
+        const { status, body } = await runVisualizeRequest(entry.request);
+        results[index] = { index, status, body };
+      } catch (error: any) {
+        console.error(`❌ Batch item ${index} crashed:`, error);
+        results[index] = { index, status: 500, body: { error: 'Internal server error', details: error?.message } };
+      }
+      console.log(`📦 Batch item ${index + 1}/${entries.length} finished with status ${results[index].status}`);
+    }
+  };
+
+  const runners = Math.max(1, Math.min(concurrency, entries.length));
+  await Promise.all(Array.from({ length: runners }, runNext));
+  return results;
+}
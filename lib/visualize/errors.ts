@@ -0,0 +1,75 @@
+import { LLMBlockedError, LLMError } from '../llm/errors';
+import { PythonExecutionError, PythonOutputLimitError, PythonPoolBusyError, PythonTimeoutError, SandboxViolationError } from '../python/errors';
+import { SceneValidationError } from '../scene/errors';
+
+// The model answered with ERROR:CANNOT_VISUALIZE instead of code.
+export class CannotVisualizeError extends Error {
+  readonly code = 'CANNOT_VISUALIZE';
+  readonly details: string;
+
+  constructor(details: string) {
+    super('Problem cannot be visualized by AI'); // Clarified error source
+    this.name = 'CannotVisualizeError';
+    this.details = details;
+  }
+}
+
+export interface VisualizationErrorDescription {
+  status: number;
+  body: {
+    error: string;
+    code?: string;
+    details?: unknown;
+    retryAfter?: number; // Seconds, mirrors the Retry-After header for clients that cannot read headers (SSE)
+  };
+  headers?: Record<string, string>;
+}
+
+// Map a pipeline failure to the HTTP status and JSON body returned to the client.
+export function describeVisualizationError(error: unknown): VisualizationErrorDescription {
+  if (error instanceof CannotVisualizeError) {
+    return { status: 422, body: { error: error.message, code: error.code, details: error.details } };
+  }
+  if (error instanceof LLMBlockedError) {
+    return { status: 400, body: { error: error.message, code: error.code, details: error.details } };
+  }
+  if (error instanceof LLMError) {
+    if (error.code === 'LLM_CONFIG') {
+      return { status: 500, body: { error: error.message, code: error.code, details: error.details } };
+    }
+    if (error.code === 'LLM_EMPTY_RESPONSE') {
+      return { status: 500, body: { error: 'Empty response from AI', code: error.code, details: error.details } };
+    }
+    return { status: 500, body: { error: 'Error calling AI model', code: error.code, details: error.details ?? error.message } };
+  }
+  if (error instanceof SceneValidationError) {
+    return { status: 422, body: { error: 'AI returned an invalid scene description', code: error.code, details: error.issues } };
+  }
+  if (error instanceof SandboxViolationError) {
+    return {
+      status: 422,
+      body: { error: 'Generated visualization script was rejected by the sandbox', code: error.code, details: error.violations },
+    };
+  }
+  if (error instanceof PythonPoolBusyError) {
+    return {
+      status: 429,
+      body: { error: 'The server is busy, please try again shortly', code: error.code, retryAfter: error.retryAfterSeconds },
+      headers: { 'Retry-After': String(error.retryAfterSeconds) },
+    };
+  }
+  if (error instanceof PythonTimeoutError) {
+    return { status: 504, body: { error: 'Visualization script timed out', code: error.code, details: error.message } };
+  }
+  if (error instanceof PythonOutputLimitError) {
+    return { status: 500, body: { error: 'Visualization script produced too much output', code: error.code, details: error.message } };
+  }
+  if (error instanceof PythonExecutionError) {
+    if (error.code === 'PYTHON_NO_IMAGE') {
+      return { status: 500, body: { error: 'Failed to process visualization from Python script', code: error.code, details: error.message } };
+    }
+    return { status: 500, body: { error: 'Error executing visualization script', code: error.code, details: error.message } };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { status: 500, body: { error: 'Internal server error', details: message } };
+}
@@ -0,0 +1,78 @@
+import type { VisualizeMode } from './pipeline';
+
+// Output formats the client can request from /api/visualize.
+export type OutputFormat = 'png' | 'svg' | 'pdf';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['png', 'svg', 'pdf'];
+
+export const MIME_TYPES: Record<OutputFormat, string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+};
+
+export interface OutputOptions {
+  format: OutputFormat;
+  dpi: number;     // Raster resolution; only affects PNG
+  width: number;   // Figure size in inches
+  height: number;
+}
+
+const DEFAULT_OUTPUT: Omit<OutputOptions, 'format'> = { dpi: 100, width: 8, height: 6 };
+
+// Formats each mode can produce; scene mode renders SVG only
+const MODE_FORMATS: Record<VisualizeMode, OutputFormat[]> = {
+  python: ['png', 'svg', 'pdf'],
+  scene: ['svg'],
+};
+
+function readNumber(value: unknown, name: string, min: number, max: number, fallback: number): number {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max}.`);
+  }
+  return value;
+}
+
+// Validate the output fields of a request body. Throws with a client-facing message.
+export function parseOutputOptions(body: { format?: unknown; dpi?: unknown; width?: unknown; height?: unknown }, mode: VisualizeMode): OutputOptions {
+  const allowed = MODE_FORMATS[mode];
+  const format = (body.format ?? allowed[0]) as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Invalid format. Expected one of: ${OUTPUT_FORMATS.join(', ')}.`);
+  }
+  if (!allowed.includes(format)) {
+    throw new Error(`Format '${format}' is not supported in ${mode} mode. Supported: ${allowed.join(', ')}.`);
+  }
+  return {
+    format,
+    dpi: readNumber(body.dpi, 'dpi', 50, 600, DEFAULT_OUTPUT.dpi),
+    width: readNumber(body.width, 'width', 2, 20, DEFAULT_OUTPUT.width),
+    height: readNumber(body.height, 'height', 2, 20, DEFAULT_OUTPUT.height),
+  };
+}
+
+export function defaultOutputOptions(mode: VisualizeMode): OutputOptions {
+  return parseOutputOptions({}, mode);
+}
+
+// Identify what the script actually produced from its leading bytes
+export function detectMimeType(data: Buffer): string | null {
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return MIME_TYPES.png;
+  if (data.subarray(0, 5).toString('latin1') === '%PDF-') return MIME_TYPES.pdf;
+  const head = data.subarray(0, 512).toString('utf-8').trimStart();
+  if (head.startsWith('<?xml') || head.startsWith('<svg') || head.startsWith('<!DOCTYPE svg')) return MIME_TYPES.svg;
+  return null;
+}
+
+// Matplotlib settings that make a bare plt.savefig() produce the requested output
+export function buildMatplotlibrc(output: OutputOptions): string {
+  return [
+    `savefig.format: ${output.format}`,
+    `savefig.dpi: ${output.dpi}`,
+    `figure.figsize: ${output.width}, ${output.height}`,
+    'savefig.bbox: tight',
+    'svg.fonttype: none', // Keep text as text in SVG so it stays editable in worksheets
+    '',
+  ].join('\n');
+}
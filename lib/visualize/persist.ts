@@ -0,0 +1,60 @@
+import { getVisualizationStore } from '../storage/getStore';
+import { VisualizationRecord } from '../storage/types';
+import { VisualizeSuccess } from './pipeline';
+
+export interface PersistedVisualization {
+  id: string;
+  publicUrl: string; // Direct image URL, relative to the site origin
+  shareUrl: string;  // Share page, relative to the site origin
+}
+
+// Shared links stop resolving after VISUALIZATION_TTL_DAYS (unset or 0 keeps them forever)
+const TTL_DAYS = Number.parseFloat(process.env.VISUALIZATION_TTL_DAYS || '0');
+
+export function getShareUrl(id: string): string {
+  return `/v/${id}`;
+}
+
+// Save a successful render so it can be shared. Storage problems are logged and
+// reported as null; they never fail the visualization itself.
+export async function persistVisualization(problemText: string, result: VisualizeSuccess): Promise<PersistedVisualization | null> {
+  try {
+    const store = await getVisualizationStore();
+    if (!store) return null;
+
+    const record = await store.save({
+      problemText,
+      code: result.code,
+      model: result.model,
+      figures: result.figures.map((figure) => ({
+        image: Buffer.from(figure.imageBase64, 'base64'),
+        mimeType: figure.mimeType,
+        caption: figure.caption,
+      })),
+    });
+    console.log(`💾 Saved visualization ${record.id} to ${store.name} storage`);
+    return { id: record.id, publicUrl: record.imageUrl, shareUrl: getShareUrl(record.id) };
+  } catch (error) {
+    console.error('❌ Failed to persist visualization:', error);
+    return null;
+  }
+}
+
+// When a saved visualization stops resolving, or null when links are kept forever
+export function getVisualizationExpiry(record: VisualizationRecord): Date | null {
+  if (!(TTL_DAYS > 0)) return null;
+  return new Date(new Date(record.createdAt).getTime() + TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Look up a saved visualization for the share page. Unknown and expired ids both return null.
+export async function loadVisualization(id: string): Promise<VisualizationRecord | null> {
+  const store = await getVisualizationStore();
+  if (!store) return null;
+
+  const record = await store.get(id);
+  if (!record) return null;
+
+  const expiry = getVisualizationExpiry(record);
+  if (expiry && expiry.getTime() < Date.now()) return null;
+  return record;
+}
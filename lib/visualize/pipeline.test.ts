@@ -0,0 +1,77 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { createMockProvider } from '../llm/mockProvider';
+import { LLMProvider } from '../llm/types';
+import { getPythonPool } from '../python/executePython';
+import { PipelineEvent, visualizeProblem } from './pipeline';
+
+afterAll(() => getPythonPool().shutdown());
+
+// The mock provider, remembering every prompt it was sent
+function recordingProvider(): LLMProvider & { prompts: string[] } {
+  const mock = createMockProvider();
+  const prompts: string[] = [];
+  return {
+    ...mock,
+    prompts,
+    generateCode(prompt, options) {
+      prompts.push(prompt);
+      return mock.generateCode(prompt, options);
+    },
+  };
+}
+
+describe('visualizeProblem', () => {
+  it('renders a problem on the first attempt', async () => {
+    const result = await visualizeProblem('A circle has radius 5.', { provider: createMockProvider() });
+    expect(result).toMatchObject({ ok: true, mode: 'python', mimeType: 'image/png', attempts: 1 });
+  });
+
+  it('repairs code that fails to run, sending the failed code and its error back', async () => {
+    const provider = recordingProvider();
+    const events: PipelineEvent[] = [];
+    const result = await visualizeProblem('[mock:fail-once] A circle has radius 5.', {
+      provider,
+      onProgress: (event) => events.push(event),
+    });
+
+    expect(result).toMatchObject({ ok: true, attempts: 2 });
+    expect(events.map((event) => event.stage).filter((stage) => stage !== 'code')).toEqual([
+      'generating', 'generated', 'executing', 'repairing', 'generating', 'generated', 'executing',
+    ]);
+    expect(events).toContainEqual({ stage: 'repairing', attempt: 1, reason: 'PYTHON_EXECUTION_FAILED' });
+
+    const repairPrompt = provider.prompts[1];
+    expect(repairPrompt).toContain('undefined_value');  // The failed code
+    expect(repairPrompt).toContain('NameError');        // Its traceback
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const result = await visualizeProblem('[mock:fail-once] A circle has radius 5.', {
+      provider: createMockProvider(),
+      maxAttempts: 1,
+    });
+    expect(result).toMatchObject({ ok: false, attempts: 1, error: { code: 'PYTHON_EXECUTION_FAILED' } });
+  });
+
+  it('does not repair problems the model cannot visualize', async () => {
+    const provider = recordingProvider();
+    const result = await visualizeProblem('[mock:cannot-visualize] Prove that there are infinitely many primes.', { provider });
+    expect(result).toMatchObject({ ok: false, attempts: 1 });
+    expect(provider.prompts).toHaveLength(1);
+  });
+
+  it('repairs scene descriptions without running Python', async () => {
+    const result = await visualizeProblem('[mock:fail-once] A circle has radius 5.', {
+      provider: createMockProvider(),
+      mode: 'scene',
+    });
+    expect(result).toMatchObject({ ok: true, mode: 'scene', mimeType: 'image/svg+xml', attempts: 2, debugId: null });
+  });
+
+  it('inserts placeholder-like text from the problem literally', async () => {
+    const provider = recordingProvider();
+    await visualizeProblem('A circle named {LANGUAGE} has radius $5.', { provider, language: 'Hebrew' });
+    expect(provider.prompts[0]).toContain('A circle named {LANGUAGE} has radius $5.');
+    expect(provider.prompts[0]).toContain('Hebrew');
+  });
+});
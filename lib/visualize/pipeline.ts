@@ -0,0 +1,305 @@
+import { LLMError } from '../llm/errors';
+import { getLLMProvider } from '../llm/getProvider';
+import { GenerateOptions, LLMProvider, TokenUsage } from '../llm/types';
+import { newDebugId } from '../python/debugRuns';
+import { PythonExecutionError, PythonTimeoutError, SandboxViolationError } from '../python/errors';
+import { runSandboxed } from '../python/sandbox/runSandboxed';
+import { SceneValidationError } from '../scene/errors';
+import { parseScene } from '../scene/parseScene';
+import { renderSceneToSvg } from '../scene/renderSvg';
+import { CannotVisualizeError } from './errors';
+import { buildMatplotlibrc, defaultOutputOptions, detectMimeType, MIME_TYPES, OutputOptions } from './output';
+import { ENGINEERED_PROMPT_TEMPLATE, fillPrompt, REPAIR_PROMPT_TEMPLATE, SCENE_PROMPT_TEMPLATE, SCENE_REPAIR_PROMPT_TEMPLATE } from './prompts';
+
+// python: the model writes Matplotlib code that runs in the sandbox.
+// scene: the model returns a JSON scene graph that we render to SVG ourselves.
+export type VisualizeMode = 'python' | 'scene';
+
+export const VISUALIZE_MODES: VisualizeMode[] = ['python', 'scene'];
+
+// Stage notifications for callers that report progress (job status, streaming)
+export type PipelineEvent =
+  | { stage: 'generating'; attempt: number }
+  | { stage: 'code'; attempt: number; chunk: string }        // Partial model output while it streams
+  | { stage: 'generated'; attempt: number; code: string }    // Cleaned code that is about to run
+  | { stage: 'executing'; attempt: number }
+  | { stage: 'repairing'; attempt: number; reason: string };
+
+export interface VisualizeOptions {
+  mode?: VisualizeMode;            // Defaults to 'python'
+  output?: OutputOptions;          // Defaults to PNG for python, SVG for scene
+  language?: string | null;        // Name of the language for figure text; defaults to the problem's own
+  provider?: LLMProvider;          // Defaults to the provider selected by LLM_PROVIDER
+  maxAttempts?: number;            // Initial generation plus repair attempts
+  generateOptions?: GenerateOptions;
+  onProgress?: (event: PipelineEvent) => void;
+}
+
+export interface VisualizeSuccess {
+  ok: true;
+  mode: VisualizeMode;
+  imageBase64: string;
+  mimeType: string;
+  figures: VisualizationFigure[];  // Every figure in order, with captions; imageBase64/mimeType repeat the first
+  code: string;                    // Python source, or the scene JSON in scene mode
+  model: string;
+  attempts: number;
+  usage: TokenUsage;
+  debugId: string | null;          // Retained script runs, see lib/python/debugRuns
+}
+
+export interface VisualizeFailure {
+  ok: false;
+  error: unknown;
+  attempts: number;
+  debugId: string | null;
+}
+
+export type VisualizeResult = VisualizeSuccess | VisualizeFailure;
+
+// How many times the model may be asked to fix its own code after a failed run
+const MAX_REPAIR_ATTEMPTS = Number.parseInt(process.env.VISUALIZE_MAX_REPAIR_ATTEMPTS || '2', 10);
+const DEFAULT_MAX_ATTEMPTS = 1 + (Number.isFinite(MAX_REPAIR_ATTEMPTS) ? Math.max(0, MAX_REPAIR_ATTEMPTS) : 0);
+
+// Error codes worth sending back to the model; anything else is not the code's fault
+const REPAIRABLE_ERROR_CODES = new Set(['PYTHON_EXECUTION_FAILED', 'PYTHON_NO_IMAGE', 'SANDBOX_VIOLATION', 'PYTHON_TIMEOUT', 'PYTHON_CPU_LIMIT']);
+
+// Strip markdown fences and stray language tags the model sometimes adds around the code
+export function cleanGeneratedCode(generatedCode: string): string {
+  let cleanedCode = generatedCode.trim();
+  if (cleanedCode.startsWith('```python')) {
+    cleanedCode = cleanedCode.substring('```python'.length).trimStart();
+  }
+  if (cleanedCode.endsWith('```')) {
+    cleanedCode = cleanedCode.substring(0, cleanedCode.length - '```'.length).trimEnd();
+  }
+  // Also remove a single leading line if it's just ```python, as seen in logs
+  const lines = cleanedCode.split('\n');
+  if (lines[0].trim() === 'python') { // A bit more general than just ```python
+      console.warn("Warning: AI included 'python' as the first line. Removing it.");
+      lines.shift();
+      cleanedCode = lines.join('\n');
+  } else if (lines[0].trim() === '```python') {
+      console.warn("Warning: AI included '```python' as the first line. Removing it.");
+      lines.shift();
+      cleanedCode = lines.join('\n');
+  }
+
+  // Ensure there isn't a lingering ``` at the very end if it was missed by the first pass
+  if (cleanedCode.endsWith('```')) {
+    cleanedCode = cleanedCode.substring(0, cleanedCode.length - '```'.length).trimEnd();
+  }
+  return cleanedCode;
+}
+
+// Text handed to the model in the repair prompt: the traceback when there is one
+function describeFailure(error: PythonExecutionError | SceneValidationError): string {
+  if (error instanceof SceneValidationError) {
+    return error.issues.join('\n');
+  }
+  if (error instanceof SandboxViolationError) {
+    return `The code was rejected before running because it uses forbidden features:\n${error.violations.join('\n')}`;
+  }
+  if (error instanceof PythonTimeoutError) {
+    return `${error.message}. Make the code simpler and faster (fewer points, no unbounded loops).`;
+  }
+  return (error.stderr || error.message).slice(-4000);
+}
+
+export interface VisualizationFigure {
+  imageBase64: string;
+  mimeType: string;
+  caption: string | null;
+}
+
+interface RenderedOutput {
+  code: string;
+  imageBase64: string;
+  mimeType: string;
+  figures: VisualizationFigure[];
+}
+
+// Per-mode prompts and the step that turns the model's answer into an image
+interface ModeHandler {
+  promptTemplate: string;
+  repairPromptTemplate: string;
+  prepare(generated: string): string; // Clean up the raw answer; the result is what the repair prompt shows
+  render(prepared: string, output: OutputOptions, debug?: { id: string; attempt: number }): Promise<RenderedOutput>;
+  executesCode: boolean;              // Runs generated Python, so attempts can be retained under a debug id
+  isRepairable(error: unknown): error is PythonExecutionError | SceneValidationError;
+}
+
+const MODE_HANDLERS: Record<VisualizeMode, ModeHandler> = {
+  python: {
+    promptTemplate: ENGINEERED_PROMPT_TEMPLATE,
+    repairPromptTemplate: REPAIR_PROMPT_TEMPLATE,
+    prepare(generated) {
+      const cleanedCode = cleanGeneratedCode(generated);
+      console.log('🧹 Cleaned Python code (first 100 chars):', cleanedCode.substring(0, 100));
+      return cleanedCode;
+    },
+    async render(cleanedCode, output, debug) {
+      // Execute the Python code on the server, inside the sandbox
+      console.log('🐍 Executing generated Python code in the sandbox...');
+      // The harness saves the figures itself, in the format set by the matplotlibrc
+      const { figures: files } = await runSandboxed(cleanedCode, {
+        files: { matplotlibrc: buildMatplotlibrc(output) },
+        debug,
+        collectFigures: true,
+      });
+      console.log(`📄 Python script produced ${files.length} figure(s).`);
+
+      if (files.length === 0) {
+        throw new PythonExecutionError(
+          'The script finished without an open Matplotlib figure. Create the plot with plt.subplots() and do not call plt.close().',
+          { code: 'PYTHON_NO_IMAGE' }
+        );
+      }
+
+      // Trust the bytes over the request in case the code changed the format anyway
+      const requestedMimeType = MIME_TYPES[output.format];
+      const figures = files.map(({ data, caption }) => {
+        const mimeType = detectMimeType(data) ?? requestedMimeType;
+        if (mimeType !== requestedMimeType) {
+          console.warn(`⚠️ Requested ${requestedMimeType} but the script produced ${mimeType}`);
+        }
+        return { imageBase64: data.toString('base64'), mimeType, caption };
+      });
+      return { code: cleanedCode, ...figures[0], figures };
+    },
+    executesCode: true,
+    isRepairable: (error): error is PythonExecutionError =>
+      error instanceof PythonExecutionError && REPAIRABLE_ERROR_CODES.has(error.code),
+  },
+  scene: {
+    promptTemplate: SCENE_PROMPT_TEMPLATE,
+    repairPromptTemplate: SCENE_REPAIR_PROMPT_TEMPLATE,
+    prepare: (generated) => generated.trim(),
+    async render(generated, output) {
+      const scene = parseScene(generated);
+      console.log(`🧩 Scene validated: ${scene.points.length} points, ${scene.segments.length} segments, ${scene.functions.length} functions`);
+      const svg = renderSceneToSvg(scene, output.width);
+      const figure = { imageBase64: Buffer.from(svg, 'utf-8').toString('base64'), mimeType: 'image/svg+xml', caption: null }; // The title is drawn in the SVG
+      return { code: JSON.stringify(scene, null, 2), ...figure, figures: [figure] };
+    },
+    executesCode: false,
+    isRepairable: (error): error is SceneValidationError => error instanceof SceneValidationError,
+  },
+};
+
+function addUsage(total: TokenUsage, usage: TokenUsage | null): TokenUsage {
+  if (!usage) return total;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
+
+// Generate code for a problem, run it in the sandbox and, on failure, ask the model
+// to repair its own code. Never throws; failures are returned with the attempt count.
+export async function visualizeProblem(problemText: string, options: VisualizeOptions = {}): Promise<VisualizeResult> {
+  let provider: LLMProvider;
+  try {
+    provider = options.provider ?? getLLMProvider();
+  } catch (configError) {
+    return { ok: false, error: configError, attempts: 0, debugId: null };
+  }
+
+  const mode = options.mode ?? 'python';
+  const handler = MODE_HANDLERS[mode];
+  const output = options.output ?? defaultOutputOptions(mode);
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  let usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const language = options.language ?? 'the same language as the problem statement';
+  let prompt = fillPrompt(handler.promptTemplate, { PROBLEM_TEXT: problemText, LANGUAGE: language });
+  const debugId = handler.executesCode ? newDebugId() : null;
+  let executed = false; // Only hand out the debug id once something was retained under it
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    options.onProgress?.({ stage: 'generating', attempt });
+    console.log(`📤 Sending ${mode} request to ${provider.name} (${provider.model}), attempt ${attempt}/${maxAttempts}...`);
+
+    let preparedCode: string;
+    try {
+      // Only stream when someone is listening; providers fall back to a single request otherwise
+      const onProgress = options.onProgress;
+      const result = await provider.generateCode(prompt, {
+        ...options.generateOptions,
+        ...(onProgress ? { onChunk: (chunk: string) => onProgress({ stage: 'code', attempt, chunk }) } : {}),
+      });
+      console.log('📥 Received response from AI model');
+      usage = addUsage(usage, result.usage);
+
+      const generatedCode = result.text;
+      if (!generatedCode || generatedCode.trim() === '') {
+        throw new LLMError('Empty response from AI', 'LLM_EMPTY_RESPONSE');
+      }
+
+      if (generatedCode.startsWith('ERROR:CANNOT_VISUALIZE:')) {
+        console.log('ℹ️ AI cannot visualize this problem:', generatedCode);
+        throw new CannotVisualizeError(generatedCode);
+      }
+
+      preparedCode = handler.prepare(generatedCode);
+      options.onProgress?.({ stage: 'generated', attempt, code: preparedCode });
+    } catch (apiError) {
+      console.error('❌ AI model error:', apiError);
+      return { ok: false, error: apiError, attempts: attempt, debugId: executed ? debugId : null };
+    }
+
+    options.onProgress?.({ stage: 'executing', attempt });
+    try {
+      executed = true;
+      const rendered = await handler.render(preparedCode, output, debugId ? { id: debugId, attempt } : undefined);
+      console.log(`🖼️ Successfully rendered ${rendered.mimeType} after ${attempt} attempt(s).`);
+      console.log(`📊 Token usage: ${usage.totalTokens} total (${usage.promptTokens} prompt, ${usage.completionTokens} completion)`);
+
+      return { ok: true, mode, ...rendered, model: provider.model, attempts: attempt, usage, debugId: executed ? debugId : null };
+    } catch (renderError) {
+      if (!handler.isRepairable(renderError) || attempt === maxAttempts) {
+        console.error('❌ Error rendering visualization:', renderError);
+        return { ok: false, error: renderError, attempts: attempt, debugId: executed ? debugId : null };
+      }
+
+      console.warn(`🔧 Attempt ${attempt} failed (${renderError.code}), asking the model to repair it...`);
+      options.onProgress?.({ stage: 'repairing', attempt, reason: renderError.code });
+      prompt = fillPrompt(handler.repairPromptTemplate, {
+        PROBLEM_TEXT: problemText,
+        LANGUAGE: language,
+        FAILED_CODE: preparedCode,
+        ERROR_TEXT: describeFailure(renderError),
+      });
+    }
+  }
+
+  // Only reached when maxAttempts < 1
+  return { ok: false, error: new Error('No visualization attempts were made'), attempts: 0, debugId: null };
+}
+
+export interface RenderOptions {
+  mode?: VisualizeMode;            // Defaults to 'python'
+  output?: OutputOptions;          // Defaults to PNG for python, SVG for scene
+}
+
+export type RenderResult =
+  | ({ ok: true; mode: VisualizeMode; debugId: string | null } & RenderedOutput)
+  | { ok: false; error: unknown; debugId: string | null };
+
+// Run code the user edited, without asking the model: the same sandbox and figure
+// handling as a generated attempt, but no repair loop. Never throws.
+export async function renderCode(code: string, options: RenderOptions = {}): Promise<RenderResult> {
+  const mode = options.mode ?? 'python';
+  const handler = MODE_HANDLERS[mode];
+  const output = options.output ?? defaultOutputOptions(mode);
+  const debugId = handler.executesCode ? newDebugId() : null;
+
+  try {
+    const rendered = await handler.render(handler.prepare(code), output, debugId ? { id: debugId, attempt: 1 } : undefined);
+    console.log(`🖼️ Successfully rendered edited ${mode} code as ${rendered.mimeType}.`);
+    return { ok: true, mode, ...rendered, debugId };
+  } catch (renderError) {
+    console.error('❌ Error rendering edited code:', renderError);
+    return { ok: false, error: renderError, debugId };
+  }
+}
@@ -0,0 +1,143 @@
+// Prompt templates sent to the LLM provider by the visualize pipeline.
+
+// Part of the result cache key. Bump whenever a template changes in a way that
+// should invalidate previously cached visualizations.
+export const PROMPT_VERSION = 4;
+
+// Fill every {PLACEHOLDER} of a template in one pass, so placeholder-like text inside the
+// inserted values (a problem mentioning "{LANGUAGE}", braces in a traceback) stays as it is.
+// Placeholders without a value are left untouched.
+export function fillPrompt(template: string, values: Record<string, string>): string {
+  return template.replace(/\{([A-Z_]+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+}
+
+export const ENGINEERED_PROMPT_TEMPLATE = `
+You are an expert Python programmer specializing in mathematical visualizations.
+Your task is to take a math problem description and generate Python code to visualize it.
+
+The visualization should be clear, mathematically accurate, and aesthetically pleasing.
+
+Key requirements for the visualization:
+- When relevant to the problem, include text annotations directly on the image. These annotations should display:
+    - Lengths of givensides (e.g., '3cm', 'x units').
+    - given areas (e.g., 'Area = 35 cm²').
+    - Measures of angles (e.g., '30°', 'θ').
+    - Coordinates of important points only if they are part of the problem.
+- Use Matplotlib's \`plt.text()\` or an Axes object's \`ax.text()\` / \`ax.annotate()\` methods for these text annotations.
+- Ensure all annotations are legible, clearly positioned (e.g., near the feature they describe but not overlapping other important elements or each other), with minimal text and appropriately sized for clarity.
+- The numerical values, variables, and units in these annotations must precisely match the problem statement.
+- Write all text in the figures (titles, annotations, captions) in {LANGUAGE}.
+- Represent geometric figures accurately according to the problem's specifications (e.g., right angles should appear as 90 degrees, relative lengths should be visually proportional if specific values are given, etc.).
+
+Use the Matplotlib library for plotting both analytic geometry problems (lines, functions, points on a coordinate plane) and general geometric shapes (triangles, circles, polygons, angles).
+Ensure all geometric constructions and renderings are done directly with Matplotlib.
+
+Output ONLY the Python code required to generate the visualization. Do not include any explanatory text, markdown formatting, or anything other than the Python code itself.
+
+Important: Do not save, encode or print the plot yourself. Every Matplotlib figure that is still open when the code
+finishes is saved automatically, so:
+- Create the plot with plt.subplots() (or plt.figure()) and leave the figure open: do not call plt.close() or plt.show().
+- If the problem has several parts (a), (b), (c) that each need their own diagram, create one figure per part, in order,
+  and give each a short caption through the figure label, e.g. fig, ax = plt.subplots(num='(a) Triangle ABC').
+- Do not call plt.savefig(), and do not pass figsize when creating a figure:
+  the output format, resolution and size are configured by the server.
+
+Here is the math problem:
+--- START PROBLEM ---
+{PROBLEM_TEXT}
+--- END PROBLEM ---
+
+Python code:
+`;
+
+export const REPAIR_PROMPT_TEMPLATE = `
+The Python code you previously generated to visualize a math problem failed.
+Fix the code so that it runs successfully and produces the visualization.
+
+Follow exactly the same requirements as before: use only Matplotlib (and optionally NumPy, SymPy, math),
+leave the figure(s) open when the code finishes (no plt.close() or plt.show()), and do not call plt.savefig()
+or save anything to a file; the open figures are saved automatically. Keep all text in the figures in {LANGUAGE}.
+
+Output ONLY the corrected Python code, without explanations or markdown formatting.
+
+Here is the math problem:
+--- START PROBLEM ---
+{PROBLEM_TEXT}
+--- END PROBLEM ---
+
+Here is the code that failed:
+--- START CODE ---
+{FAILED_CODE}
+--- END CODE ---
+
+Here is the error it produced:
+--- START ERROR ---
+{ERROR_TEXT}
+--- END ERROR ---
+
+Corrected Python code:
+`;
+
+export const SCENE_PROMPT_TEMPLATE = `
+You are an expert in geometry and analytic geometry.
+Your task is to take a math problem description and describe a diagram for it as a JSON scene.
+
+Output ONLY a single JSON object, without explanatory text or markdown formatting, with this shape:
+
+{
+  "title": string (optional),
+  "bounds": { "xMin": number, "xMax": number, "yMin": number, "yMax": number } (optional, computed from the elements if omitted),
+  "showAxes": boolean (true for analytic geometry and function graphs),
+  "showGrid": boolean,
+  "points": [{ "id": string, "x": number, "y": number, "label": string (optional, defaults to id), "hidden": boolean (optional) }],
+  "segments": [{ "from": pointId, "to": pointId, "label": string (optional, e.g. "3cm"), "dashed": boolean (optional), "extend": "none" | "ray" | "line" (optional) }],
+  "circles": [{ "center": pointId, "radius": number, "label": string (optional), "dashed": boolean (optional) }],
+  "polygons": [{ "vertices": [pointId, ...], "fill": boolean (optional), "label": string (optional, e.g. "Area = 35 cm²") }],
+  "functions": [{ "expression": string in x using + - * / ^ ( ) sin cos tan sqrt abs exp ln log pi e, "xMin": number (optional), "xMax": number (optional), "label": string (optional) }],
+  "angles": [{ "vertex": pointId, "from": pointId, "to": pointId, "label": string (optional, e.g. "30°"), "right": boolean (optional) }],
+  "labels": [{ "x": number, "y": number, "text": string }]
+}
+
+Key requirements:
+- Every point referenced by segments, circles, polygons or angles must be declared in "points".
+- Compute coordinates so the figure is mathematically accurate: right angles are 90 degrees, lengths are proportional to the given values.
+- Label only what is given in the problem: side lengths, areas, angle measures, and coordinates of important points if they are part of the problem.
+- The numerical values, variables and units in labels must precisely match the problem statement.
+- Write the title and all labels in {LANGUAGE}.
+
+If the problem cannot be visualized, output exactly: ERROR:CANNOT_VISUALIZE: followed by a short explanation.
+
+Here is the math problem:
+--- START PROBLEM ---
+{PROBLEM_TEXT}
+--- END PROBLEM ---
+
+JSON scene:
+`;
+
+export const SCENE_REPAIR_PROMPT_TEMPLATE = `
+The JSON scene you previously generated to visualize a math problem was invalid.
+Fix it so that it matches the required shape exactly and every referenced point id is declared in "points".
+Keep the title and all labels in {LANGUAGE}.
+
+Output ONLY the corrected JSON object, without explanations or markdown formatting.
+
+Here is the math problem:
+--- START PROBLEM ---
+{PROBLEM_TEXT}
+--- END PROBLEM ---
+
+Here is the scene that failed:
+--- START CODE ---
+{FAILED_CODE}
+--- END CODE ---
+
+Here are the validation errors:
+--- START ERROR ---
+{ERROR_TEXT}
+--- END ERROR ---
+
+Corrected JSON scene:
+`;
@@ -0,0 +1,212 @@
+import { visualizationCacheKey } from '../cache/cacheKey';
+import { CACHE_TTL_MS, getVisualizationCache } from '../cache/getCache';
+import { CachedVisualization } from '../cache/types';
+import { getLLMProvider } from '../llm/getProvider';
+import { LLMProvider } from '../llm/types';
+import { AUTO_LANGUAGE, findLanguage, resolvePromptLanguage } from '../ocr/languages';
+import { PythonExecutionError } from '../python/errors';
+import { describeVisualizationError } from './errors';
+import { OutputOptions, parseOutputOptions } from './output';
+import { persistVisualization } from './persist';
+import { renderCode, visualizeProblem, VisualizeMode, VisualizeOptions, VISUALIZE_MODES } from './pipeline';
+
+// A validated /api/visualize request, shared by the sync, job and batch endpoints.
+export interface VisualizeRequest {
+  problemText: string;
+  mode: VisualizeMode;
+  output: OutputOptions;
+  language: string | null; // Code of the language for figure text; null leaves it to the model
+  noCache: boolean; // Skip the cache lookup and always generate a fresh result
+}
+
+export type ParsedVisualizeRequest =
+  | { ok: true; request: VisualizeRequest }
+  | { ok: false; error: string };
+
+// A validated /api/render request: code from the client, run without the model
+export interface RenderRequest {
+  code: string;
+  mode: VisualizeMode;
+  output: OutputOptions;
+}
+
+export type ParsedRenderRequest =
+  | { ok: true; request: RenderRequest }
+  | { ok: false; error: string };
+
+// Generated scripts are a few KB; anything near this is not an edited visualization
+const MAX_CODE_LENGTH = 100_000;
+
+// JSON body returned to the client, along with its HTTP status
+export interface VisualizeResponse {
+  status: number;
+  body: Record<string, unknown>;
+  headers?: Record<string, string>;
+}
+
+export function parseVisualizeRequest(body: any): ParsedVisualizeRequest {
+  const problemText = body?.problemText;
+  if (!problemText || typeof problemText !== 'string' || problemText.trim() === '') {
+    return { ok: false, error: 'No problem text provided or text is invalid.' };
+  }
+
+  const mode = parseMode(body);
+  if (!mode) {
+    return { ok: false, error: `Invalid mode. Expected one of: ${VISUALIZE_MODES.join(', ')}.` };
+  }
+
+  // Explicit codes come from the OCR language selector; 'auto' or none detects the script
+  const language = body.language ?? AUTO_LANGUAGE;
+  if (typeof language !== 'string' || (language !== AUTO_LANGUAGE && !findLanguage(language))) {
+    return { ok: false, error: 'Invalid language.' };
+  }
+
+  try {
+    return {
+      ok: true,
+      request: {
+        problemText,
+        mode,
+        output: parseOutputOptions(body, mode),
+        language: resolvePromptLanguage(language, problemText)?.code ?? null,
+        noCache: body.noCache === true,
+      },
+    };
+  } catch (e: any) {
+    return { ok: false, error: e.message };
+  }
+}
+
+function parseMode(body: any): VisualizeMode | null {
+  const mode = (body.mode ?? 'python') as VisualizeMode;
+  return VISUALIZE_MODES.includes(mode) ? mode : null;
+}
+
+export function parseRenderRequest(body: any): ParsedRenderRequest {
+  const code = body?.code;
+  if (!code || typeof code !== 'string' || code.trim() === '') {
+    return { ok: false, error: 'No code provided or code is invalid.' };
+  }
+  if (code.length > MAX_CODE_LENGTH) {
+    return { ok: false, error: `Code is too long. The limit is ${MAX_CODE_LENGTH} characters.` };
+  }
+
+  const mode = parseMode(body);
+  if (!mode) {
+    return { ok: false, error: `Invalid mode. Expected one of: ${VISUALIZE_MODES.join(', ')}.` };
+  }
+
+  try {
+    return { ok: true, request: { code, mode, output: parseOutputOptions(body, mode) } };
+  } catch (e: any) {
+    return { ok: false, error: e.message };
+  }
+}
+
+// Run edited code and build the client response. Nothing is cached or persisted:
+// the result no longer matches the problem text it was generated for. Failures carry
+// the script's stderr, since the code is the caller's own.
+export async function runRenderRequest(request: RenderRequest): Promise<VisualizeResponse> {
+  const result = await renderCode(request.code, { mode: request.mode, output: request.output });
+  if (!result.ok) {
+    const { status, body, headers } = describeVisualizationError(result.error);
+    const stderr = result.error instanceof PythonExecutionError && result.error.stderr ? result.error.stderr.slice(-4000) : undefined;
+    return { status, body: { ...body, stderr, debugId: result.debugId }, headers };
+  }
+  return {
+    status: 200,
+    body: {
+      imageBase64: result.imageBase64,
+      mimeType: result.mimeType,
+      figures: result.figures,
+      mode: result.mode,
+      source: result.code,
+      debugId: result.debugId,
+    },
+  };
+}
+
+function successResponse(entry: CachedVisualization, cached: boolean, debugId: string | null): VisualizeResponse {
+  return {
+    status: 200,
+    body: {
+      imageBase64: entry.imageBase64,
+      mimeType: entry.mimeType,
+      figures: entry.figures,
+      mode: entry.mode,
+      source: entry.code, // `code` is taken by error codes in failure bodies
+      attempts: entry.attempts,
+      id: entry.id,
+      publicUrl: entry.publicUrl,
+      shareUrl: entry.shareUrl,
+      cached,
+      debugId,
+    },
+  };
+}
+
+// Run the pipeline for a request, persist the result and build the client response.
+// Identical requests are answered from the result cache unless noCache is set.
+export async function runVisualizeRequest(
+  request: VisualizeRequest,
+  options: Pick<VisualizeOptions, 'onProgress'> = {}
+): Promise<VisualizeResponse> {
+  // The model is part of the cache key. Configuration errors are left to the pipeline to report.
+  let provider: LLMProvider | undefined;
+  try {
+    provider = getLLMProvider();
+  } catch {
+    provider = undefined;
+  }
+
+  const cache = provider ? await getVisualizationCache() : null;
+  const cacheKey = provider ? visualizationCacheKey(request, `${provider.name}:${provider.model}`) : null;
+
+  if (cache && cacheKey && !request.noCache) {
+    try {
+      const hit = await cache.get(cacheKey);
+      if (hit) {
+        console.log(`⚡ Cache hit (${cache.name}) for ${cacheKey.slice(0, 12)}`);
+        return successResponse(hit, true, null);
+      }
+    } catch (error) {
+      console.warn('⚠️ Cache lookup failed, generating a fresh visualization:', error);
+    }
+  }
+
+  const result = await visualizeProblem(request.problemText, {
+    mode: request.mode,
+    output: request.output,
+    language: request.language ? findLanguage(request.language)?.name : null,
+    provider,
+    onProgress: options.onProgress,
+  });
+  if (!result.ok) {
+    const { status, body, headers } = describeVisualizationError(result.error);
+    return { status, body: { ...body, attempts: result.attempts, debugId: result.debugId }, headers };
+  }
+
+  const saved = await persistVisualization(request.problemText, result);
+  const entry: CachedVisualization = {
+    imageBase64: result.imageBase64,
+    mimeType: result.mimeType,
+    figures: result.figures,
+    mode: result.mode,
+    code: result.code,
+    model: result.model,
+    attempts: result.attempts,
+    id: saved?.id ?? null,
+    publicUrl: saved?.publicUrl ?? null,
+    shareUrl: saved?.shareUrl ?? null,
+    cachedAt: new Date().toISOString(),
+  };
+
+  // A bypassed request still refreshes the entry for everyone else
+  if (cache && cacheKey) {
+    await cache.set(cacheKey, entry, CACHE_TTL_MS).catch((error) => {
+      console.warn('⚠️ Failed to store visualization in cache:', error);
+    });
+  }
+
+  return successResponse(entry, false, result.debugId);
+}
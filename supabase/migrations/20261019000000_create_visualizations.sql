@@ -0,0 +1,24 @@
+-- Rendered visualizations, used for shareable links.
+-- Images live in the private `visualizations` Storage bucket; `mime_type` and `image_path`
+-- describe the first figure, `figures` all of them. They are served by
+-- /api/visualizations/[id]/image.
+
+create table if not exists public.visualizations (
+  id uuid primary key,
+  problem_text text not null,
+  generated_code text not null,
+  model text not null,
+  mime_type text not null default 'image/png',
+  image_path text not null,
+  figures jsonb not null default '[]', -- [{ mime_type, caption, image_path }] for every figure, in order
+  created_at timestamptz not null default now()
+);
+
+alter table public.visualizations enable row level security;
+
+-- No policies: only the server, with the service role key, saves and looks up visualizations,
+-- so the anon key cannot list them. Shares go through /v/[id], which respects expiry.
+
+insert into storage.buckets (id, name, public)
+values ('visualizations', 'visualizations', false)
+on conflict (id) do nothing;
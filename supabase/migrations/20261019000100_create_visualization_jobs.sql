@@ -0,0 +1,16 @@
+-- Async visualization jobs (JOB_STORE=supabase).
+-- The full job document lives in `job`; status and updated_at are duplicated for querying and cleanup.
+create table if not exists public.visualization_jobs (
+  id uuid primary key,
+  status text not null check (status in ('queued', 'generating', 'executing', 'done', 'failed')),
+  job jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists visualization_jobs_updated_at_idx on public.visualization_jobs (updated_at);
+
+alter table public.visualization_jobs enable row level security;
+
+-- No policies: only the server, with the service role key, creates, advances and reads jobs.
+-- Job documents hold problem texts and results, which the anon key must not expose.
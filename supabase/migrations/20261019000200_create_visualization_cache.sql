@@ -0,0 +1,16 @@
+-- Cached visualization results (VISUALIZE_CACHE=supabase), keyed by a hash of the
+-- normalized problem text, prompt version, model and output options.
+
+create table if not exists public.visualization_cache (
+  key text primary key,
+  entry jsonb not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists visualization_cache_expires_at_idx on public.visualization_cache (expires_at);
+
+alter table public.visualization_cache enable row level security;
+
+-- No policies: only the server, with the service role key, reads and writes entries.
+-- Cached results hold generated code and problem texts, which the anon key must not expose.
@@ -0,0 +1,19 @@
+import os from 'os';
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Tests sit next to the modules they cover. Sandbox and pipeline tests run real Python
+// (with numpy and matplotlib) and the mock LLM provider, so no network is needed.
+export default defineConfig({
+  test: {
+    include: ['lib/**/*.test.ts'],
+    environment: 'node',
+    testTimeout: 60_000,
+    hookTimeout: 60_000,
+    env: {
+      LLM_PROVIDER: 'mock',
+      PYTHON_POOL_SIZE: '1',
+      PYTHON_DEBUG_DIR: path.join(os.tmpdir(), 'questions-visualizer-test-runs'),
+    },
+  },
+});